@@ -0,0 +1,230 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
+import { FileText, DollarSign } from 'lucide-react';
+import { formatCurrency, formatPoints, type CalculationInput } from '@/lib/tax-calculator';
+import { calculateAnnualRefund, type Form106Summary } from '@/lib/annual-refund';
+
+interface AnnualRefundCalculatorProps {
+  personal: CalculationInput;
+}
+
+export function AnnualRefundCalculator({ personal }: AnnualRefundCalculatorProps) {
+  const [form106, setForm106] = useState<Form106Summary>({
+    gross: 120000,
+    taxable_income: 120000,
+    tax_withheld: 10000,
+    credit_points_used: 13.5,
+    pension_employee: 0,
+  });
+  const [monthsWorked, setMonthsWorked] = useState<number>(6);
+  const [donations, setDonations] = useState<number>(0);
+  const [lifeInsurance, setLifeInsurance] = useState<number>(0);
+
+  const result = useMemo(
+    () => calculateAnnualRefund({
+      personal: { ...personal, months_worked_in_year: monthsWorked },
+      form_106: form106,
+      donations_annual: donations,
+      life_insurance_annual: lifeInsurance,
+    }),
+    [personal, form106, monthsWorked, donations, lifeInsurance]
+  );
+
+  const updateForm106 = (updates: Partial<Form106Summary>) => {
+    setForm106(prev => ({ ...prev, ...updates }));
+  };
+
+  return (
+    <>
+      <Card className="shadow-medium">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            נתוני טופס 106
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="form106_gross">ברוטו שנתי</Label>
+            <Input
+              id="form106_gross"
+              type="number"
+              min="0"
+              value={form106.gross}
+              onChange={(e) => updateForm106({ gross: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="form106_taxable">הכנסה חייבת שנתית</Label>
+            <Input
+              id="form106_taxable"
+              type="number"
+              min="0"
+              value={form106.taxable_income}
+              onChange={(e) => updateForm106({ taxable_income: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="form106_tax">מס שנוכה</Label>
+            <Input
+              id="form106_tax"
+              type="number"
+              min="0"
+              value={form106.tax_withheld}
+              onChange={(e) => updateForm106({ tax_withheld: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="form106_points">נקודות זיכוי שנוצלו</Label>
+            <Input
+              id="form106_points"
+              type="number"
+              step="0.25"
+              min="0"
+              value={form106.credit_points_used}
+              onChange={(e) => updateForm106({ credit_points_used: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="form106_pension">הפרשות עובד לפנסיה</Label>
+            <Input
+              id="form106_pension"
+              type="number"
+              min="0"
+              value={form106.pension_employee || 0}
+              onChange={(e) => updateForm106({ pension_employee: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="months_worked">חודשי עבודה בשנה</Label>
+            <Input
+              id="months_worked"
+              type="number"
+              min="1"
+              max="12"
+              value={monthsWorked}
+              onChange={(e) => setMonthsWorked(Math.min(12, Math.max(1, parseInt(e.target.value) || 1)))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="donations_annual">תרומות (סעיף 46)</Label>
+            <Input
+              id="donations_annual"
+              type="number"
+              min="0"
+              value={donations}
+              onChange={(e) => setDonations(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="life_insurance_annual">ביטוח חיים פרטי</Label>
+            <Input
+              id="life_insurance_annual"
+              type="number"
+              min="0"
+              value={lifeInsurance}
+              onChange={(e) => setLifeInsurance(parseInt(e.target.value) || 0)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Main Result */}
+      <Card className="shadow-strong bg-gradient-success text-white">
+        <CardContent className="p-8">
+          <div className="text-center">
+            <p className="text-lg opacity-90 mb-2">
+              {result.refund >= 0 ? 'החזר מס צפוי' : 'יתרת מס לתשלום'}
+            </p>
+            <p className="text-5xl font-bold mb-4">{formatCurrency(Math.abs(result.refund))}</p>
+            <div className="flex justify-center gap-4 text-sm opacity-90">
+              <span>חבות שנתית {formatCurrency(result.tax_liability)}</span>
+              <span>•</span>
+              <span>נוכה {formatCurrency(result.tax_withheld)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <Card className="shadow-medium">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <DollarSign className="h-4 w-4" />
+              חישוב החבות השנתית
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">מס לפי מדרגות</span>
+              <span className="font-semibold">{formatCurrency(result.tax_before_credits)}</span>
+            </div>
+            {result.surtax > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">מתוכו מס יסף</span>
+                <span>{formatCurrency(result.surtax)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">נקודות זיכוי</span>
+              <span className="font-semibold text-success">-{formatCurrency(result.credit_points.value)}</span>
+            </div>
+            {result.pension_credit > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">זיכוי פנסיה</span>
+                <span className="font-semibold text-success">-{formatCurrency(result.pension_credit)}</span>
+              </div>
+            )}
+            {result.settlement_credit > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">זיכוי יישוב מזכה</span>
+                <span className="font-semibold text-success">-{formatCurrency(result.settlement_credit)}</span>
+              </div>
+            )}
+            {result.donation_credit > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">זיכוי תרומות</span>
+                <span className="font-semibold text-success">-{formatCurrency(result.donation_credit)}</span>
+              </div>
+            )}
+            {result.life_insurance_credit > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">זיכוי ביטוח חיים</span>
+                <span className="font-semibold text-success">-{formatCurrency(result.life_insurance_credit)}</span>
+              </div>
+            )}
+            <Separator />
+            <div className="flex justify-between font-semibold">
+              <span>חבות מס שנתית</span>
+              <span>{formatCurrency(result.tax_liability)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-medium">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">נקודות זיכוי שנתיות</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>זכאות</span>
+              <Badge variant="outline">{formatPoints(result.credit_points.entitled)}</Badge>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span>נוצלו בתלושים</span>
+              <Badge variant="outline">{formatPoints(result.credit_points.used)}</Badge>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>לא נוצלו</span>
+              <Badge>{formatPoints(result.credit_points.unused)}</Badge>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,297 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart, Receipt } from 'lucide-react';
+import { formatCurrency, type CalculationInput } from '@/lib/tax-calculator';
+import { calculateEquity, type EquityEvent, type EquityInstrument, type EquityTrack } from '@/lib/equity';
+import { parseMonth } from '@/lib/months';
+
+interface EquityCalculatorProps {
+  personal: CalculationInput;
+}
+
+const TRACK_LABELS: Record<EquityTrack, string> = {
+  capital_102: '102 הוני',
+  ordinary_102: '102 פירותי',
+  non_102: 'ללא נאמן (3(ט))',
+};
+
+export function EquityCalculator({ personal }: EquityCalculatorProps) {
+  const [events, setEvents] = useState<EquityEvent[]>([
+    {
+      instrument: 'rsu',
+      track: 'capital_102',
+      shares: 100,
+      grant_date: `${personal.tax_year - 3}-01`,
+      event_date: `${personal.tax_year}-06`,
+      event_price: 200,
+      grant_average_price: 120,
+    },
+  ]);
+  const [draft, setDraft] = useState<EquityEvent>({
+    instrument: 'rsu',
+    track: 'capital_102',
+    shares: 0,
+    grant_date: `${personal.tax_year - 2}-01`,
+    event_date: `${personal.tax_year}-01`,
+    event_price: 0,
+  });
+
+  // Events from another tax year are dropped when the year changes
+  const yearEvents = useMemo(
+    () => events.filter((event) => event.event_date.startsWith(`${personal.tax_year}-`)),
+    [events, personal.tax_year]
+  );
+  const result = useMemo(() => calculateEquity({ personal, events: yearEvents }), [personal, yearEvents]);
+
+  const updateDraft = (updates: Partial<EquityEvent>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  // A cleared or out-of-order month would make the calculation throw, so the draft is checked first
+  const grantMonth = parseMonth(draft.grant_date);
+  const eventMonth = parseMonth(draft.event_date);
+  const draftError = grantMonth === null || eventMonth === null
+    ? 'יש להזין חודש הענקה וחודש אירוע'
+    : grantMonth > eventMonth
+      ? 'חודש ההענקה מאוחר מחודש האירוע'
+      : Math.floor(eventMonth / 12) !== personal.tax_year
+        ? `חודש האירוע אינו בשנת המס ${personal.tax_year}`
+        : null;
+
+  const addEvent = () => {
+    if (!draftError && draft.shares > 0 && draft.event_price > 0) {
+      setEvents(prev => [...prev, draft]);
+    }
+  };
+
+  const removeEvent = (removed: EquityEvent) => {
+    setEvents(prev => prev.filter((event) => event !== removed));
+  };
+
+  return (
+    <>
+      <Card className="shadow-medium">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LineChart className="h-5 w-5" />
+            אירוע מימוש או הבשלה
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid md:grid-cols-3 gap-4">
+          <div>
+            <Label>סוג</Label>
+            <Select value={draft.instrument} onValueChange={(value: EquityInstrument) => updateDraft({ instrument: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rsu">RSU</SelectItem>
+                <SelectItem value="option">אופציות</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>מסלול</Label>
+            <Select value={draft.track} onValueChange={(value: EquityTrack) => updateDraft({ track: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TRACK_LABELS) as EquityTrack[]).map((track) => (
+                  <SelectItem key={track} value={track}>{TRACK_LABELS[track]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="equity_shares">מספר מניות</Label>
+            <Input
+              id="equity_shares"
+              type="number"
+              min="0"
+              value={draft.shares}
+              onChange={(e) => updateDraft({ shares: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="equity_grant_date">חודש הענקה</Label>
+            <Input
+              id="equity_grant_date"
+              type="month"
+              value={draft.grant_date}
+              onChange={(e) => updateDraft({ grant_date: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="equity_event_date">
+              {draft.track === 'non_102' ? 'חודש הבשלה / מימוש' : 'חודש מכירה'}
+            </Label>
+            <Input
+              id="equity_event_date"
+              type="month"
+              value={draft.event_date}
+              onChange={(e) => updateDraft({ event_date: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="equity_event_price">
+              {draft.track === 'non_102' ? 'מחיר מניה במועד האירוע' : 'מחיר מכירה למניה'}
+            </Label>
+            <Input
+              id="equity_event_price"
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.event_price}
+              onChange={(e) => updateDraft({ event_price: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          {draft.instrument === 'option' && (
+            <div>
+              <Label htmlFor="equity_exercise_price">מחיר מימוש</Label>
+              <Input
+                id="equity_exercise_price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.exercise_price || 0}
+                onChange={(e) => updateDraft({ exercise_price: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          )}
+          {draft.track === 'capital_102' && (
+            <div>
+              <Label htmlFor="equity_grant_average">ממוצע 30 יום לפני ההענקה</Label>
+              <Input
+                id="equity_grant_average"
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.grant_average_price ?? ''}
+                onChange={(e) => updateDraft({ grant_average_price: e.target.value ? parseFloat(e.target.value) : undefined })}
+                placeholder="חברה ציבורית בלבד"
+              />
+            </div>
+          )}
+          <div className="flex items-end">
+            <Button onClick={addEvent} variant="outline" className="w-full" disabled={!!draftError}>
+              הוסף אירוע
+            </Button>
+          </div>
+          {draftError && (
+            <p className="md:col-span-3 text-sm text-destructive">{draftError}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Main Result */}
+      <Card className="shadow-strong bg-gradient-success text-white">
+        <CardContent className="p-8">
+          <div className="text-center">
+            <p className="text-lg opacity-90 mb-2">נטו מהון עובדים בשנת {result.tax_year}</p>
+            <p className="text-5xl font-bold mb-4">{formatCurrency(result.totals.net)}</p>
+            <div className="flex justify-center gap-4 text-sm opacity-90">
+              <span>שווי {formatCurrency(result.totals.total_benefit)}</span>
+              <span>•</span>
+              <span>מס {formatCurrency(result.totals.total_tax)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-medium">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">מס לפי אירוע</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>אירוע</TableHead>
+                <TableHead>שווי</TableHead>
+                <TableHead>הכנסת עבודה</TableHead>
+                <TableHead>רווח הון</TableHead>
+                <TableHead>מס הכנסה</TableHead>
+                <TableHead>ב"ל ובריאות</TableHead>
+                <TableHead>מס רווח הון</TableHead>
+                <TableHead>נטו</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.events.map((item, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <div className="font-medium">
+                      {item.event.instrument === 'rsu' ? 'RSU' : 'אופציות'} · {item.event.event_date}
+                    </div>
+                    <div className="flex gap-1 mt-1">
+                      <Badge variant="outline">{TRACK_LABELS[item.event.track]}</Badge>
+                      {item.event.track === 'capital_102' && !item.holding_period_met && (
+                        <Badge variant="destructive">לפני תום תקופת החסימה</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatCurrency(item.total_benefit)}</TableCell>
+                  <TableCell>{formatCurrency(item.ordinary_income)}</TableCell>
+                  <TableCell>{formatCurrency(item.capital_gain)}</TableCell>
+                  <TableCell>{formatCurrency(item.income_tax)}</TableCell>
+                  <TableCell>{formatCurrency(item.national_insurance)}</TableCell>
+                  <TableCell>{formatCurrency(item.capital_gains_tax + item.capital_surtax)}</TableCell>
+                  <TableCell className="font-semibold">{formatCurrency(item.net)}</TableCell>
+                  <TableCell>
+                    <Button onClick={() => removeEvent(item.event)} variant="ghost" size="sm">
+                      הסר
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {result.payslips.map((payslip) => (
+        <Card key={payslip.month} className="shadow-medium">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Receipt className="h-4 w-4" />
+              תלוש {payslip.month}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">הכנסה מהון עובדים בתלוש (ללא תשלום במזומן)</span>
+              <span className="font-semibold">{formatCurrency(payslip.equity_income)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">תוספת מס הכנסה בתלוש</span>
+              <span className="font-semibold">{formatCurrency(payslip.additional_income_tax)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">תוספת ביטוח לאומי ובריאות</span>
+              <span className="font-semibold">{formatCurrency(payslip.additional_ni)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between font-semibold">
+              <span>נטו בתלוש</span>
+              <span>
+                {formatCurrency(payslip.with_equity.net)}
+                <span className="text-sm text-muted-foreground mr-2">
+                  (במקום {formatCurrency(payslip.without_equity.net)})
+                </span>
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </>
+  );
+}
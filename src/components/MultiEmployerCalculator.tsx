@@ -0,0 +1,210 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Building2, FileText } from 'lucide-react';
+import { formatCurrency, type CalculationInput } from '@/lib/tax-calculator';
+import { calculateMultiEmployerSalary, type EmployerIncome } from '@/lib/tax-coordination';
+
+interface MultiEmployerCalculatorProps {
+  personal: CalculationInput;
+}
+
+export function MultiEmployerCalculator({ personal }: MultiEmployerCalculatorProps) {
+  // The salary entered in the personal details is the primary employer
+  const [secondaries, setSecondaries] = useState<EmployerIncome[]>([
+    { name: 'מעסיק נוסף', gross_monthly: 6000, is_primary: false },
+  ]);
+  const [hasTaxCoordination, setHasTaxCoordination] = useState<boolean>(true);
+  const [draft, setDraft] = useState<EmployerIncome>({ name: '', gross_monthly: 0, is_primary: false });
+
+  const result = useMemo(
+    () => calculateMultiEmployerSalary({
+      personal,
+      has_tax_coordination: hasTaxCoordination,
+      employers: [
+        {
+          name: 'מעסיק ראשי',
+          gross_monthly: personal.gross_monthly,
+          bonus_current_month: personal.bonus_current_month,
+          is_primary: true,
+        },
+        ...secondaries,
+      ],
+    }),
+    [personal, secondaries, hasTaxCoordination]
+  );
+
+  const updateDraft = (updates: Partial<EmployerIncome>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  const addEmployer = () => {
+    if (draft.gross_monthly > 0) {
+      setSecondaries(prev => [...prev, { ...draft, name: draft.name || `מעסיק ${prev.length + 2}` }]);
+      setDraft({ name: '', gross_monthly: 0, is_primary: false });
+    }
+  };
+
+  const removeEmployer = (removed: EmployerIncome) => {
+    setSecondaries(prev => prev.filter((employer) => employer !== removed));
+  };
+
+  const balanceRow = (label: string, balance: number) => (
+    <div className="flex justify-between font-semibold">
+      <span>{balance > 0 ? `${label} - יתרה לתשלום` : `${label} - החזר צפוי`}</span>
+      <span className={balance > 0 ? 'text-destructive' : 'text-success'}>{formatCurrency(Math.abs(balance))}</span>
+    </div>
+  );
+
+  return (
+    <>
+      <Card className="shadow-medium">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            מעסיקים נוספים
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="employer_name">שם המעסיק</Label>
+              <Input
+                id="employer_name"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="employer_gross">ברוטו חודשי</Label>
+              <Input
+                id="employer_gross"
+                type="number"
+                min="0"
+                value={draft.gross_monthly}
+                onChange={(e) => updateDraft({ gross_monthly: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={addEmployer} variant="outline" className="w-full">
+                הוסף מעסיק
+              </Button>
+            </div>
+          </div>
+
+          {secondaries.map((employer, index) => (
+            <div key={index} className="flex items-center justify-between p-2 bg-muted rounded">
+              <span>{employer.name} · {formatCurrency(employer.gross_monthly)}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeEmployer(employer)}
+              >
+                הסר
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="tax_coordination"
+              checked={hasTaxCoordination}
+              onCheckedChange={(checked) => setHasTaxCoordination(!!checked)}
+            />
+            <Label htmlFor="tax_coordination">תיאום מס (אחרת ניכוי במס מקסימלי במעסיק הנוסף)</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Main Result */}
+      <Card className="shadow-strong bg-gradient-success text-white">
+        <CardContent className="p-8">
+          <div className="text-center">
+            <p className="text-lg opacity-90 mb-2">נטו חודשי מכל המעסיקים</p>
+            <p className="text-5xl font-bold mb-4">{formatCurrency(result.combined.net_monthly)}</p>
+            <div className="flex justify-center gap-4 text-sm opacity-90">
+              <span>{result.employers.length} מעסיקים</span>
+              <span>•</span>
+              <span>ברוטו {formatCurrency(result.combined.gross_monthly)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-medium">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">תלוש לפי מעסיק</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>מעסיק</TableHead>
+                <TableHead>ברוטו</TableHead>
+                <TableHead>מס הכנסה</TableHead>
+                <TableHead>ב"ל ובריאות</TableHead>
+                <TableHead>נטו</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.employers.map((employer, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span>{employer.name}</span>
+                      <Badge variant="outline">{employer.is_primary ? 'ראשי' : 'נוסף'}</Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatCurrency(employer.result.gross)}</TableCell>
+                  <TableCell>{formatCurrency(employer.result.income_tax_after_credits)}</TableCell>
+                  <TableCell>{formatCurrency(employer.result.national_insurance + employer.result.health_tax)}</TableCell>
+                  <TableCell className="font-semibold">{formatCurrency(employer.result.net)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-medium">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <FileText className="h-4 w-4" />
+            התחשבנות שנתית
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">הכנסה חייבת שנתית</span>
+            <span className="font-semibold">{formatCurrency(result.combined.annual_taxable_income)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">מס הכנסה שנוכה</span>
+            <span className="font-semibold">{formatCurrency(result.combined.annual_tax_withheld)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">חבות מס הכנסה</span>
+            <span className="font-semibold">{formatCurrency(result.combined.annual_tax_liability)}</span>
+          </div>
+          {balanceRow('מס הכנסה', result.combined.annual_tax_balance)}
+          <Separator />
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">ביטוח לאומי ובריאות שנוכו</span>
+            <span className="font-semibold">{formatCurrency(result.combined.annual_ni_withheld)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">חבות ביטוח לאומי ובריאות</span>
+            <span className="font-semibold">{formatCurrency(result.combined.annual_ni_liability)}</span>
+          </div>
+          {balanceRow('ביטוח לאומי ובריאות', result.combined.annual_ni_balance)}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
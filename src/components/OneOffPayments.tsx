@@ -0,0 +1,199 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Gift } from 'lucide-react';
+import {
+  calculateOneOffPayslips,
+  calculateRecuperationPay,
+  formatCurrency,
+  getTaxSettings,
+  type CalculationInput,
+  type OneOffPayment,
+  type OneOffPayType,
+} from '@/lib/tax-calculator';
+
+interface OneOffPaymentsProps {
+  personal: CalculationInput;
+  payments: OneOffPayment[];
+  onPaymentsChange: (payments: OneOffPayment[]) => void;
+}
+
+const TYPE_LABELS: Record<OneOffPayType, string> = {
+  recuperation: 'דמי הבראה',
+  thirteenth_salary: 'משכורת 13',
+  holiday_gift: 'מתנת חג',
+  signing_bonus: 'מענק חתימה',
+};
+
+export function OneOffPayments({ personal, payments, onPaymentsChange }: OneOffPaymentsProps) {
+  const [draft, setDraft] = useState<OneOffPayment>({
+    type: 'recuperation',
+    month: 7,
+    seniority_years: 1,
+    job_percentage: 100,
+  });
+
+  const payslips = useMemo(() => calculateOneOffPayslips(personal, payments), [personal, payments]);
+  const giftThreshold = getTaxSettings(personal.tax_year).one_off_pay.holiday_gift_exempt_threshold;
+  const recuperation = draft.type === 'recuperation'
+    ? calculateRecuperationPay(draft.seniority_years || 0, draft.job_percentage ?? 100, personal.tax_year)
+    : undefined;
+
+  const updateDraft = (updates: Partial<OneOffPayment>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  const addPayment = () => {
+    if (draft.type === 'recuperation' ? (recuperation?.amount || 0) > 0 : (draft.amount || 0) > 0) {
+      onPaymentsChange([...payments, draft]);
+    }
+  };
+
+  const removePayment = (removed: OneOffPayment) => {
+    onPaymentsChange(payments.filter((payment) => payment !== removed));
+  };
+
+  return (
+    <Card className="shadow-medium">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Gift className="h-4 w-4" />
+          רכיבי שכר חד-פעמיים
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-4 gap-4">
+          <div>
+            <Label>רכיב</Label>
+            <Select value={draft.type} onValueChange={(value: OneOffPayType) => updateDraft({ type: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TYPE_LABELS) as OneOffPayType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>חודש תשלום</Label>
+            <Select value={String(draft.month)} onValueChange={(value) => updateDraft({ month: parseInt(value) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
+                  <SelectItem key={month} value={String(month)}>{month}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {draft.type === 'recuperation' ? (
+            <>
+              <div>
+                <Label htmlFor="recuperation_seniority">שנות ותק</Label>
+                <Input
+                  id="recuperation_seniority"
+                  type="number"
+                  min="0"
+                  value={draft.seniority_years || 0}
+                  onChange={(e) => updateDraft({ seniority_years: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="recuperation_job_percentage">אחוז משרה</Label>
+                <Input
+                  id="recuperation_job_percentage"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={draft.job_percentage ?? 100}
+                  onChange={(e) => updateDraft({ job_percentage: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </>
+          ) : (
+            <div>
+              <Label htmlFor="one_off_amount">סכום</Label>
+              <Input
+                id="one_off_amount"
+                type="number"
+                min="0"
+                value={draft.amount || 0}
+                onChange={(e) => updateDraft({ amount: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          )}
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {recuperation
+              ? `${recuperation.days} ימים × ${formatCurrency(recuperation.daily_rate)} = ${formatCurrency(recuperation.amount)}`
+              : draft.type === 'holiday_gift'
+                ? `מתנה בשווי עד ${formatCurrency(giftThreshold)} פטורה ממס`
+                : ''}
+          </p>
+          <Button onClick={addPayment} variant="outline">
+            הוסף רכיב
+          </Button>
+        </div>
+
+        {payslips.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>חודש</TableHead>
+                <TableHead>רכיבים</TableHead>
+                <TableHead>נטו רגיל</TableHead>
+                <TableHead>נטו בחודש</TableHead>
+                <TableHead>שינוי בנטו</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payslips.map((payslip) => (
+                <TableRow key={payslip.month}>
+                  <TableCell>{payslip.month}</TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      {payslip.items.map((item, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <span>{item.description}</span>
+                          <span className="text-muted-foreground">{formatCurrency(item.amount)}</span>
+                          {!item.cash && <Badge variant="outline">בשווה כסף</Badge>}
+                        </div>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatCurrency(payslip.without_one_off.net)}</TableCell>
+                  <TableCell>{formatCurrency(payslip.with_one_off.net)}</TableCell>
+                  <TableCell className={payslip.net_change >= 0 ? 'font-semibold text-success' : 'font-semibold text-destructive'}>
+                    {payslip.net_change >= 0 ? '+' : ''}{formatCurrency(payslip.net_change)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {payments.map((payment, index) => (
+          <div key={index} className="flex items-center justify-between p-2 bg-muted rounded">
+            <span>{TYPE_LABELS[payment.type]} · חודש {payment.month}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removePayment(payment)}
+            >
+              הסר
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
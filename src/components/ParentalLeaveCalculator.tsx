@@ -0,0 +1,217 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Baby, DollarSign } from 'lucide-react';
+import { formatCurrency, type CalculationInput } from '@/lib/tax-calculator';
+import { calculateParentalLeave, type ParentalLeaveInput } from '@/lib/maternity';
+
+interface ParentalLeaveCalculatorProps {
+  personal: CalculationInput;
+}
+
+export function ParentalLeaveCalculator({ personal }: ParentalLeaveCalculatorProps) {
+  const [leave, setLeave] = useState<Omit<ParentalLeaveInput, 'personal'>>({
+    start_month: 1,
+    insured_months: 14,
+    unpaid_weeks: 0,
+    continue_pension: true,
+    partner_net_monthly: 0,
+  });
+  const [priorSalary, setPriorSalary] = useState<number | undefined>(undefined);
+
+  const result = useMemo(
+    () => calculateParentalLeave({
+      ...leave,
+      personal,
+      prior_salaries: priorSalary !== undefined ? Array(6).fill(priorSalary) : undefined,
+    }),
+    [leave, personal, priorSalary]
+  );
+
+  const updateLeave = (updates: Partial<Omit<ParentalLeaveInput, 'personal'>>) => {
+    setLeave(prev => ({ ...prev, ...updates }));
+  };
+
+  return (
+    <>
+      <Card className="shadow-medium">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Baby className="h-5 w-5" />
+            פרטי חופשת הלידה
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid md:grid-cols-2 gap-4">
+          <div>
+            <Label>חודש תחילת החופשה</Label>
+            <Select value={String(leave.start_month)} onValueChange={(value) => updateLeave({ start_month: parseInt(value) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
+                  <SelectItem key={month} value={String(month)}>{month}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="insured_months">חודשי ביטוח ב-14 החודשים האחרונים</Label>
+            <Input
+              id="insured_months"
+              type="number"
+              min="0"
+              max="14"
+              value={leave.insured_months}
+              onChange={(e) => updateLeave({ insured_months: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="prior_salary">שכר ממוצע ב-6 החודשים שלפני החופשה</Label>
+            <Input
+              id="prior_salary"
+              type="number"
+              min="0"
+              value={priorSalary ?? personal.gross_monthly}
+              onChange={(e) => setPriorSalary(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="allowance_days">ימי דמי לידה להורה זה</Label>
+            <Input
+              id="allowance_days"
+              type="number"
+              min="0"
+              max={result.entitled_days}
+              value={leave.allowance_days ?? result.entitled_days}
+              onChange={(e) => updateLeave({ allowance_days: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="unpaid_weeks">שבועות חופשה ללא תשלום</Label>
+            <Input
+              id="unpaid_weeks"
+              type="number"
+              min="0"
+              value={leave.unpaid_weeks || 0}
+              onChange={(e) => updateLeave({ unpaid_weeks: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="partner_net">נטו חודשי של בן/בת הזוג</Label>
+            <Input
+              id="partner_net"
+              type="number"
+              min="0"
+              value={leave.partner_net_monthly || 0}
+              onChange={(e) => updateLeave({ partner_net_monthly: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="continue_pension"
+              checked={leave.continue_pension}
+              onCheckedChange={(checked) => updateLeave({ continue_pension: !!checked })}
+            />
+            <Label htmlFor="continue_pension">רצף הפרשות לפנסיה בתקופת דמי הלידה</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Main Result */}
+      <Card className="shadow-strong bg-gradient-success text-white">
+        <CardContent className="p-8">
+          <div className="text-center">
+            <p className="text-lg opacity-90 mb-2">נטו משק הבית בתקופת החופשה</p>
+            <p className="text-5xl font-bold mb-4">{formatCurrency(result.totals.household_net)}</p>
+            <div className="flex justify-center gap-4 text-sm opacity-90">
+              <span>{result.months.length} חודשים</span>
+              <span>•</span>
+              <span>דמי לידה {formatCurrency(result.totals.allowance)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-medium">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <DollarSign className="h-4 w-4" />
+            דמי לידה
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">ימי זכאות</span>
+            <span className="font-semibold">{result.entitled_days}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">דמי לידה ליום (עד {formatCurrency(result.daily_allowance_cap)})</span>
+            <span className="font-semibold">{formatCurrency(result.daily_allowance)}</span>
+          </div>
+          <Separator />
+          <div className="flex justify-between font-semibold">
+            <span>שינוי בנטו לעומת עבודה רגילה</span>
+            <span className={result.totals.net_change < 0 ? 'text-destructive' : 'text-success'}>
+              {formatCurrency(result.totals.net_change)}
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result.months.length > 0 && (
+        <Card className="shadow-medium">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">הכנסה חודשית לאורך החופשה</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>חודש</TableHead>
+                  <TableHead>ימי עבודה / לידה / חל"ת</TableHead>
+                  <TableHead>שכר</TableHead>
+                  <TableHead>דמי לידה</TableHead>
+                  <TableHead>מס וביטוח</TableHead>
+                  <TableHead>נטו</TableHead>
+                  <TableHead>נטו משק הבית</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.months.map((month) => (
+                  <TableRow key={month.month}>
+                    <TableCell>{month.month}</TableCell>
+                    <TableCell>{month.worked_days} / {month.allowance_days} / {month.unpaid_days}</TableCell>
+                    <TableCell>{formatCurrency(month.salary)}</TableCell>
+                    <TableCell>{formatCurrency(month.allowance)}</TableCell>
+                    <TableCell>
+                      {formatCurrency(month.result.income_tax_after_credits + month.result.national_insurance + month.result.health_tax)}
+                    </TableCell>
+                    <TableCell>{formatCurrency(month.result.net)}</TableCell>
+                    <TableCell className="font-semibold">{formatCurrency(month.household_net)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell>חודש רגיל</TableCell>
+                  <TableCell>30 / 0 / 0</TableCell>
+                  <TableCell>{formatCurrency(result.regular.gross)}</TableCell>
+                  <TableCell>{formatCurrency(0)}</TableCell>
+                  <TableCell>
+                    {formatCurrency(result.regular.income_tax_after_credits + result.regular.national_insurance + result.regular.health_tax)}
+                  </TableCell>
+                  <TableCell>{formatCurrency(result.regular.net)}</TableCell>
+                  <TableCell className="font-semibold">{formatCurrency(result.regular_household_net)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
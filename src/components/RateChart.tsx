@@ -0,0 +1,121 @@
+import React, { useState, useMemo } from 'react';
+import { CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { TrendingUp } from 'lucide-react';
+import {
+  calculateRateCurve,
+  calculateSalary,
+  formatCurrency,
+  formatNumber,
+  type CalculationInput,
+} from '@/lib/tax-calculator';
+
+interface RateChartProps {
+  personal: CalculationInput;
+}
+
+const MAX_GROSS = 100000;
+const STEP = 500;
+
+const chartConfig = {
+  marginal_rate: { label: 'שיעור שולי (%)', color: 'hsl(var(--destructive))' },
+  effective_rate: { label: 'שיעור אפקטיבי (%)', color: 'hsl(var(--warning))' },
+  net: { label: 'נטו', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+export function RateChart({ personal }: RateChartProps) {
+  const [raise, setRaise] = useState<number>(1000);
+
+  const chartData = useMemo(
+    () => calculateRateCurve(personal, MAX_GROSS, STEP).map((point) => ({
+      gross: point.gross,
+      net: Math.round(point.net),
+      marginal_rate: Math.round(point.marginal_rate * 1000) / 10,
+      effective_rate: Math.round(point.effective_rate * 1000) / 10,
+    })),
+    [personal]
+  );
+
+  // What the raise adds to net, with every other input unchanged
+  const raiseEffect = useMemo(() => {
+    const before = calculateSalary({ ...personal, hourly_wage: undefined });
+    const after = calculateSalary({ ...personal, hourly_wage: undefined, gross_monthly: personal.gross_monthly + raise });
+    return { net: after.net - before.net, share: raise > 0 ? (after.net - before.net) / raise : 0 };
+  }, [personal, raise]);
+
+  return (
+    <Card className="shadow-medium">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <TrendingUp className="h-4 w-4" />
+          שיעורי מס שוליים ואפקטיביים
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer config={chartConfig} className="h-80 w-full">
+          <ComposedChart data={chartData} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="gross"
+              type="number"
+              domain={[0, MAX_GROSS]}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: number) => formatNumber(value)}
+            />
+            <YAxis yAxisId="rate" domain={[0, 'auto']} tickLine={false} axisLine={false} unit="%" />
+            <YAxis
+              yAxisId="net"
+              orientation="right"
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: number) => formatNumber(value)}
+            />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={(_, payload) => formatCurrency(payload[0]?.payload.gross ?? 0)} />}
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <ReferenceLine
+              yAxisId="rate"
+              x={personal.gross_monthly}
+              stroke="hsl(var(--primary))"
+              strokeDasharray="4 4"
+              label={{ value: 'השכר שלך', position: 'top', fill: 'hsl(var(--primary))' }}
+            />
+            <Line yAxisId="rate" dataKey="marginal_rate" type="stepAfter" stroke="var(--color-marginal_rate)" dot={false} />
+            <Line yAxisId="rate" dataKey="effective_rate" type="monotone" stroke="var(--color-effective_rate)" dot={false} />
+            <Line yAxisId="net" dataKey="net" type="monotone" stroke="var(--color-net)" dot={false} strokeWidth={2} />
+          </ComposedChart>
+        </ChartContainer>
+
+        <div className="grid md:grid-cols-2 gap-4 items-end">
+          <div>
+            <Label htmlFor="raise_amount">העלאה בברוטו</Label>
+            <Input
+              id="raise_amount"
+              type="number"
+              min="0"
+              value={raise}
+              onChange={(e) => setRaise(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <p className="text-sm">
+            העלאה של {formatCurrency(raise)} תוסיף לנטו{' '}
+            <span className="font-semibold text-success">{formatCurrency(raiseEffect.net)}</span>
+            {' '}({(raiseEffect.share * 100).toFixed(0)}% מההעלאה)
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
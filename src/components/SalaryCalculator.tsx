@@ -7,14 +7,74 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { Calculator, TrendingUp, Users, Shield, DollarSign, Info } from 'lucide-react';
+import { Calculator, TrendingUp, Users, Shield, DollarSign, Info, CalendarDays, Car, GraduationCap, Medal, Clock } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { calculateSalary, formatCurrency, type CalculationInput, type Child } from '@/lib/tax-calculator';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { SelfEmployedCalculator } from '@/components/SelfEmployedCalculator';
+import { AnnualRefundCalculator } from '@/components/AnnualRefundCalculator';
+import { EquityCalculator } from '@/components/EquityCalculator';
+import { SeveranceCalculator } from '@/components/SeveranceCalculator';
+import { ParentalLeaveCalculator } from '@/components/ParentalLeaveCalculator';
+import { SettlementCombobox } from '@/components/SettlementCombobox';
+import { OneOffPayments } from '@/components/OneOffPayments';
+import { SalaryTimeline } from '@/components/SalaryTimeline';
+import { RateChart } from '@/components/RateChart';
+import { MultiEmployerCalculator } from '@/components/MultiEmployerCalculator';
+import {
+  calculateSalary,
+  getRetirementAge,
+  solveGrossForNet,
+  formatCurrency,
+  formatPoints,
+  DEFAULT_TAX_YEAR,
+  SUPPORTED_TAX_YEARS,
+  type CalculationInput,
+  type Child,
+  type CumulativeTaxInput,
+  type PartialYearView,
+  type AcademicDegree,
+  type MilitaryService,
+  type BenefitInKind,
+  type CarBenefit,
+  type FixedValueBenefit,
+  type VehicleType,
+  type ReserveDutyInput,
+  type ResidencyProfile,
+  type NICategory,
+  type HourlyWageInput,
+  type OneOffPayment,
+} from '@/lib/tax-calculator';
+
+type CalculatorTrack =
+  | 'employee'
+  | 'multi_employer'
+  | 'self_employed'
+  | 'annual_refund'
+  | 'equity'
+  | 'severance'
+  | 'parental_leave';
+
+// Well below the solver's search bound, so a typed target never fails during render
+const MAX_TARGET_NET = 10000000;
+
+const RESIDENCY_LABELS: Record<ResidencyProfile, string> = {
+  resident: 'תושב ישראל',
+  non_resident: 'תושב חוץ',
+  foreign_worker: 'עובד זר',
+  foreign_expert: 'מומחה חוץ',
+};
+
+const NI_CATEGORY_LABELS: Record<NICategory, string> = {
+  standard: 'עובד רגיל',
+  youth: 'נער (עד גיל 18)',
+  retirement: 'מעל גיל פרישה',
+};
 
 export function SalaryCalculator() {
   const [input, setInput] = useState<CalculationInput>({
+    tax_year: DEFAULT_TAX_YEAR,
     gross_monthly: 15000,
-    is_resident: true,
+    residency: 'resident',
     gender: 'male',
     age: 30,
     children: [],
@@ -28,21 +88,88 @@ export function SalaryCalculator() {
   });
 
   const [newChildAge, setNewChildAge] = useState<string>('');
+  const [newChildDisabled, setNewChildDisabled] = useState<boolean>(false);
+  const [track, setTrack] = useState<CalculatorTrack>('employee');
+  const [mode, setMode] = useState<'gross_to_net' | 'net_to_gross'>('gross_to_net');
+  const [targetNet, setTargetNet] = useState<number>(11000);
+  const [oneOffPayments, setOneOffPayments] = useState<OneOffPayment[]>([]);
 
-  const result = useMemo(() => calculateSalary(input), [input]);
+  const { gross_monthly: solvedGross, result } = useMemo(() => {
+    if (mode === 'net_to_gross') {
+      return solveGrossForNet(targetNet, input);
+    }
+    const salary = calculateSalary(input);
+    return { gross_monthly: salary.breakdown.hourly_wage?.gross ?? input.gross_monthly, result: salary };
+  }, [input, mode, targetNet]);
+  // A solved gross replaces the hourly wage it was derived without
+  const salaryInput = useMemo(
+    () => ({
+      ...input,
+      gross_monthly: solvedGross,
+      hourly_wage: mode === 'net_to_gross' ? undefined : input.hourly_wage,
+    }),
+    [input, mode, solvedGross]
+  );
 
   const updateInput = (updates: Partial<CalculationInput>) => {
     setInput(prev => ({ ...prev, ...updates }));
   };
 
+  const updateCumulative = (updates: Partial<CumulativeTaxInput>) => {
+    setInput(prev => ({ ...prev, cumulative: { ...prev.cumulative, ...updates } }));
+  };
+
+  const getBenefit = <T extends BenefitInKind>(type: T['type']) =>
+    input.benefits_in_kind?.find((benefit) => benefit.type === type) as T | undefined;
+
+  const setBenefit = (type: BenefitInKind['type'], benefit: BenefitInKind | null) => {
+    setInput(prev => {
+      const others = (prev.benefits_in_kind || []).filter((b) => b.type !== type);
+      return { ...prev, benefits_in_kind: benefit ? [...others, benefit] : others };
+    });
+  };
+
+  const car = getBenefit<CarBenefit>('car');
+  const meals = getBenefit<FixedValueBenefit>('meals');
+
   const addChild = () => {
     const age = parseInt(newChildAge);
     if (age >= 0 && age <= 30) {
-      updateInput({ children: [...input.children, { age }] });
+      updateInput({ children: [...input.children, { age, disabled: newChildDisabled }] });
       setNewChildAge('');
+      setNewChildDisabled(false);
     }
   };
 
+  const degree = input.academic_degrees?.[0];
+  const updateDegree = (updates: Partial<AcademicDegree> | null) => {
+    updateInput({
+      academic_degrees: updates
+        ? [{ type: 'bachelor', completion_year: input.tax_year - 1, ...degree, ...updates }]
+        : [],
+    });
+  };
+
+  const updateMilitaryService = (updates: Partial<MilitaryService> | null) => {
+    updateInput({
+      military_service: updates
+        ? { type: 'military', discharge_date: `${input.tax_year - 1}-01`, service_months: 32, ...input.military_service, ...updates }
+        : undefined,
+    });
+  };
+
+  const updateReserveDuty = (updates: Partial<ReserveDutyInput>) => {
+    setInput(prev => ({ ...prev, reserve_duty: { ...prev.reserve_duty, ...updates } }));
+  };
+
+  const updateHourlyWage = (updates: Partial<HourlyWageInput> | null) => {
+    updateInput({
+      hourly_wage: updates
+        ? { hourly_rate: 60, regular_hours: 182, overtime_125_hours: 0, overtime_150_hours: 0, ...input.hourly_wage, ...updates }
+        : undefined,
+    });
+  };
+
   const removeChild = (index: number) => {
     const newChildren = input.children.filter((_, i) => i !== index);
     updateInput({ children: newChildren });
@@ -57,8 +184,23 @@ export function SalaryCalculator() {
               מחשבון שכר מברוטו לנטו
             </h1>
             <p className="text-lg text-muted-foreground">
-              חישוב מדויק של שכר נטו, מסים וביטוח לאומי לשנת 2025
+              חישוב מדויק של שכר נטו, מסים וביטוח לאומי לשנת {input.tax_year}
             </p>
+            <Tabs
+              value={track}
+              onValueChange={(value: CalculatorTrack) => setTrack(value)}
+              className="mt-4 inline-block"
+            >
+              <TabsList>
+                <TabsTrigger value="employee">שכיר</TabsTrigger>
+                <TabsTrigger value="multi_employer">כמה מעסיקים</TabsTrigger>
+                <TabsTrigger value="self_employed">עצמאי</TabsTrigger>
+                <TabsTrigger value="annual_refund">החזר מס שנתי</TabsTrigger>
+                <TabsTrigger value="equity">אופציות ו-RSU</TabsTrigger>
+                <TabsTrigger value="severance">פיצויים</TabsTrigger>
+                <TabsTrigger value="parental_leave">חופשת לידה</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </div>
 
           <div className="grid lg:grid-cols-3 gap-6">
@@ -73,16 +215,158 @@ export function SalaryCalculator() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
-                    <Label htmlFor="gross">שכר ברוטו חודשי</Label>
-                    <Input
-                      id="gross"
-                      type="number"
-                      value={input.gross_monthly}
-                      onChange={(e) => updateInput({ gross_monthly: parseInt(e.target.value) || 0 })}
-                      className="text-lg font-semibold"
-                    />
+                    <Label>שנת מס</Label>
+                    <Select
+                      value={String(input.tax_year)}
+                      onValueChange={(value) => updateInput({ tax_year: parseInt(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SUPPORTED_TAX_YEARS.map((year) => (
+                          <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
 
+                  {(track === 'employee' || track === 'multi_employer' || track === 'equity' || track === 'parental_leave') && (
+                    <>
+                      <Tabs value={mode} onValueChange={(value: 'gross_to_net' | 'net_to_gross') => setMode(value)}>
+                        <TabsList className="grid w-full grid-cols-2">
+                          <TabsTrigger value="gross_to_net">ברוטו לנטו</TabsTrigger>
+                          <TabsTrigger value="net_to_gross">נטו לברוטו</TabsTrigger>
+                        </TabsList>
+                      </Tabs>
+
+                      {mode === 'gross_to_net' ? (
+                        <>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="hourly_mode"
+                              checked={!!input.hourly_wage}
+                              onCheckedChange={(checked) => updateHourlyWage(checked ? {} : null)}
+                            />
+                            <Label htmlFor="hourly_mode">שכר שעתי</Label>
+                          </div>
+
+                          {input.hourly_wage ? (
+                            <div className="grid grid-cols-2 gap-4">
+                              <div>
+                                <Label htmlFor="hourly_rate">תעריף לשעה</Label>
+                                <Input
+                                  id="hourly_rate"
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={input.hourly_wage.hourly_rate}
+                                  onChange={(e) => updateHourlyWage({ hourly_rate: parseFloat(e.target.value) || 0 })}
+                                  className="text-lg font-semibold"
+                                />
+                              </div>
+                              <div>
+                                <Label htmlFor="regular_hours">שעות רגילות בחודש</Label>
+                                <Input
+                                  id="regular_hours"
+                                  type="number"
+                                  min="0"
+                                  value={input.hourly_wage.regular_hours}
+                                  onChange={(e) => updateHourlyWage({ regular_hours: parseFloat(e.target.value) || 0 })}
+                                />
+                              </div>
+                              <div>
+                                <Label htmlFor="overtime_125">שעות נוספות 125%</Label>
+                                <Input
+                                  id="overtime_125"
+                                  type="number"
+                                  min="0"
+                                  value={input.hourly_wage.overtime_125_hours}
+                                  onChange={(e) => updateHourlyWage({ overtime_125_hours: parseFloat(e.target.value) || 0 })}
+                                />
+                              </div>
+                              <div>
+                                <Label htmlFor="overtime_150">שעות נוספות 150%</Label>
+                                <Input
+                                  id="overtime_150"
+                                  type="number"
+                                  min="0"
+                                  value={input.hourly_wage.overtime_150_hours}
+                                  onChange={(e) => updateHourlyWage({ overtime_150_hours: parseFloat(e.target.value) || 0 })}
+                                />
+                              </div>
+                              <div>
+                                <Label htmlFor="night_hours">שעות לילה</Label>
+                                <Input
+                                  id="night_hours"
+                                  type="number"
+                                  min="0"
+                                  value={input.hourly_wage.night_hours || 0}
+                                  onChange={(e) => updateHourlyWage({ night_hours: parseFloat(e.target.value) || 0 })}
+                                />
+                              </div>
+                              <div>
+                                <Label htmlFor="night_premium_rate">תוספת לילה (%)</Label>
+                                <Input
+                                  id="night_premium_rate"
+                                  type="number"
+                                  min="0"
+                                  value={Math.round((input.hourly_wage.night_premium_rate || 0) * 100)}
+                                  onChange={(e) => updateHourlyWage({ night_premium_rate: (parseFloat(e.target.value) || 0) / 100 })}
+                                />
+                              </div>
+                              <div>
+                                <Label htmlFor="weekend_hours">שעות במנוחה שבועית</Label>
+                                <Input
+                                  id="weekend_hours"
+                                  type="number"
+                                  min="0"
+                                  value={input.hourly_wage.weekend_hours || 0}
+                                  onChange={(e) => updateHourlyWage({ weekend_hours: parseFloat(e.target.value) || 0 })}
+                                />
+                              </div>
+                            </div>
+                          ) : (
+                            <div>
+                              <Label htmlFor="gross">שכר ברוטו חודשי</Label>
+                              <Input
+                                id="gross"
+                                type="number"
+                                value={input.gross_monthly}
+                                onChange={(e) => updateInput({ gross_monthly: parseInt(e.target.value) || 0 })}
+                                className="text-lg font-semibold"
+                              />
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <div>
+                          <Label htmlFor="target_net">שכר נטו רצוי</Label>
+                          <Input
+                            id="target_net"
+                            type="number"
+                            min="0"
+                            max={MAX_TARGET_NET}
+                            value={targetNet}
+                            onChange={(e) => setTargetNet(Math.min(MAX_TARGET_NET, Math.max(0, parseInt(e.target.value) || 0)))}
+                            className="text-lg font-semibold"
+                          />
+                        </div>
+                      )}
+
+                      <div>
+                        <Label htmlFor="bonus">בונוס החודש</Label>
+                        <Input
+                          id="bonus"
+                          type="number"
+                          min="0"
+                          value={input.bonus_current_month || 0}
+                          onChange={(e) => updateInput({ bonus_current_month: parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
+                    </>
+                  )}
+
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <Label>מין</Label>
@@ -108,15 +392,63 @@ export function SalaryCalculator() {
                     </div>
                   </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="resident"
-                      checked={input.is_resident}
-                      onCheckedChange={(checked) => updateInput({ is_resident: !!checked })}
-                    />
-                    <Label htmlFor="resident">תושב ישראל</Label>
+                  <div>
+                    <Label>תושבות</Label>
+                    <Select value={input.residency} onValueChange={(value: ResidencyProfile) => updateInput({ residency: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(RESIDENCY_LABELS) as ResidencyProfile[]).map((residency) => (
+                          <SelectItem key={residency} value={residency}>{RESIDENCY_LABELS[residency]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
 
+                  {input.residency === 'foreign_expert' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="expert_arrival">חודש הגעה לישראל</Label>
+                        <Input
+                          id="expert_arrival"
+                          type="month"
+                          value={input.foreign_expert?.arrival_date || ''}
+                          onChange={(e) => updateInput({
+                            foreign_expert: { expenses_monthly: 0, ...input.foreign_expert, arrival_date: e.target.value },
+                          })}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="expert_expenses">הוצאות דיור ומחיה חודשיות</Label>
+                        <Input
+                          id="expert_expenses"
+                          type="number"
+                          min="0"
+                          value={input.foreign_expert?.expenses_monthly || 0}
+                          onChange={(e) => updateInput({
+                            foreign_expert: {
+                              arrival_date: `${input.tax_year}-01`,
+                              ...input.foreign_expert,
+                              expenses_monthly: parseInt(e.target.value) || 0,
+                            },
+                          })}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {input.residency === 'resident' && (
+                    <div>
+                      <Label>יישוב מגורים</Label>
+                      <SettlementCombobox
+                        value={input.settlement}
+                        taxYear={input.tax_year}
+                        onChange={(settlement) => updateInput({ settlement })}
+                      />
+                    </div>
+                  )}
+
                   <div className="flex items-center space-x-2">
                     <Checkbox
                       id="single_parent"
@@ -135,198 +467,517 @@ export function SalaryCalculator() {
                     <Label htmlFor="new_immigrant">עולה חדש</Label>
                   </div>
 
-                  <div>
-                    <Label htmlFor="manual_credits">נקודות זיכוי נוספות</Label>
-                    <Input
-                      id="manual_credits"
-                      type="number"
-                      step="0.25"
-                      min="0"
-                      max="10"
-                      value={input.manual_credit_points}
-                      onChange={(e) => updateInput({ manual_credit_points: parseFloat(e.target.value) || 0 })}
-                    />
-                  </div>
-                </CardContent>
-              </Card>
+                  {input.new_immigrant && (
+                    <div>
+                      <Label htmlFor="aliyah_date" className="text-xs">חודש עלייה</Label>
+                      <Input
+                        id="aliyah_date"
+                        type="month"
+                        value={input.aliyah_date || ''}
+                        onChange={(e) => updateInput({ aliyah_date: e.target.value || undefined })}
+                      />
+                    </div>
+                  )}
 
-              <Card className="shadow-medium">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <TrendingUp className="h-5 w-5" />
-                    הפרשות והניכויים
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
                   <div className="flex items-center space-x-2">
                     <Checkbox
-                      id="standard_pension"
-                      checked={input.use_standard_pension}
-                      onCheckedChange={(checked) => updateInput({ use_standard_pension: !!checked })}
+                      id="returning_resident"
+                      checked={input.returning_resident}
+                      onCheckedChange={(checked) => updateInput({ returning_resident: !!checked })}
                     />
-                    <Label htmlFor="standard_pension">פנסיה סטנדרטית (7% עובד, 8.33% מעסיק)</Label>
+                    <Label htmlFor="returning_resident">תושב חוזר</Label>
                   </div>
 
                   <div className="flex items-center space-x-2">
                     <Checkbox
-                      id="study_fund"
-                      checked={input.use_study_fund}
-                      onCheckedChange={(checked) => updateInput({ use_study_fund: !!checked })}
+                      id="pays_alimony"
+                      checked={input.pays_alimony || false}
+                      onCheckedChange={(checked) => updateInput({ pays_alimony: !!checked })}
                     />
-                    <Label htmlFor="study_fund">קרן השתלמות (2.5% עובד, 7.5% מעסיק)</Label>
+                    <Label htmlFor="pays_alimony">משלם מזונות לבן/בת זוג לשעבר</Label>
                   </div>
 
                   <div>
-                    <Label htmlFor="manual_deductions">ניכויים נוספים חודשיים</Label>
+                    <Label htmlFor="manual_credits">נקודות זיכוי נוספות</Label>
                     <Input
-                      id="manual_deductions"
+                      id="manual_credits"
                       type="number"
+                      step="0.25"
                       min="0"
-                      value={input.manual_deductions_monthly || 0}
-                      onChange={(e) => updateInput({ manual_deductions_monthly: parseInt(e.target.value) || 0 })}
-                      placeholder="למשל: ביטוח, הלוואה..."
+                      max="10"
+                      value={input.manual_credit_points}
+                      onChange={(e) => updateInput({ manual_credit_points: parseFloat(e.target.value) || 0 })}
                     />
                   </div>
+                </CardContent>
+              </Card>
+
+              {(track === 'employee' || track === 'multi_employer' || track === 'equity' || track === 'parental_leave') && (
+                <>
+                  <Card className="shadow-medium">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <TrendingUp className="h-5 w-5" />
+                        הפרשות והניכויים
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="standard_pension"
+                          checked={input.use_standard_pension}
+                          onCheckedChange={(checked) => updateInput({ use_standard_pension: !!checked })}
+                        />
+                        <Label htmlFor="standard_pension">פנסיה סטנדרטית (7% עובד, 8.33% מעסיק)</Label>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="study_fund"
+                          checked={input.use_study_fund}
+                          onCheckedChange={(checked) => updateInput({ use_study_fund: !!checked })}
+                        />
+                        <Label htmlFor="study_fund">קרן השתלמות (2.5% עובד, 7.5% מעסיק)</Label>
+                      </div>
+
+                      <div>
+                        <Label htmlFor="pension_independent_deposit">הפקדה עצמאית לפנסיה (סעיף 47)</Label>
+                        <Input
+                          id="pension_independent_deposit"
+                          type="number"
+                          min="0"
+                          value={input.pension_independent_deposit_monthly || 0}
+                          onChange={(e) => updateInput({ pension_independent_deposit_monthly: parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
+
+                      <div>
+                        <Label htmlFor="manual_deductions">ניכויים נוספים חודשיים</Label>
+                        <Input
+                          id="manual_deductions"
+                          type="number"
+                          min="0"
+                          value={input.manual_deductions_monthly || 0}
+                          onChange={(e) => updateInput({ manual_deductions_monthly: parseInt(e.target.value) || 0 })}
+                          placeholder="למשל: ביטוח, הלוואה..."
+                        />
+                      </div>
 
-                  {!input.use_standard_pension && (
-                    <div className="bg-muted/50 p-3 rounded-lg space-y-3">
-                      <Label className="text-sm font-medium">הפרשת פנסיה מותאמת אישית</Label>
                       <div className="grid grid-cols-2 gap-2">
                         <div>
-                          <Label htmlFor="custom_pension_employee" className="text-xs">אחוז עובד</Label>
+                          <Label htmlFor="donations_monthly" className="text-xs">תרומות חודשיות (סעיף 46)</Label>
                           <Input
-                            id="custom_pension_employee"
+                            id="donations_monthly"
                             type="number"
-                            step="0.1"
                             min="0"
-                            max="15"
-                            value={input.custom_pension?.employee_rate ? (input.custom_pension.employee_rate * 100) : ''}
-                            onChange={(e) => {
-                              const rate = parseFloat(e.target.value) / 100 || 0;
-                              updateInput({ 
-                                custom_pension: { 
-                                  ...input.custom_pension,
-                                  employee_rate: rate,
-                                  employer_rate: input.custom_pension?.employer_rate || 0.0833,
-                                  base_salary_only: input.custom_pension?.base_salary_only || false
-                                }
-                              });
-                            }}
-                            placeholder="7"
+                            value={input.donations_monthly || 0}
+                            onChange={(e) => updateInput({ donations_monthly: parseInt(e.target.value) || 0 })}
                           />
                         </div>
                         <div>
-                          <Label htmlFor="custom_pension_employer" className="text-xs">אחוז מעסיק</Label>
+                          <Label htmlFor="life_insurance_premiums" className="text-xs">ביטוח חיים פרטי חודשי</Label>
                           <Input
-                            id="custom_pension_employer"
+                            id="life_insurance_premiums"
                             type="number"
-                            step="0.1"
                             min="0"
-                            max="20"
-                            value={input.custom_pension?.employer_rate ? (input.custom_pension.employer_rate * 100) : ''}
-                            onChange={(e) => {
-                              const rate = parseFloat(e.target.value) / 100 || 0;
-                              updateInput({ 
-                                custom_pension: { 
-                                  ...input.custom_pension,
-                                  employee_rate: input.custom_pension?.employee_rate || 0.07,
-                                  employer_rate: rate,
-                                  base_salary_only: input.custom_pension?.base_salary_only || false
-                                }
-                              });
-                            }}
-                            placeholder="8.33"
+                            value={input.life_insurance_premiums_monthly || 0}
+                            onChange={(e) => updateInput({ life_insurance_premiums_monthly: parseInt(e.target.value) || 0 })}
                           />
                         </div>
                       </div>
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="pension_base_only"
-                          checked={input.custom_pension?.base_salary_only || false}
-                          onCheckedChange={(checked) => updateInput({ 
-                            custom_pension: { 
-                              ...input.custom_pension,
-                              employee_rate: input.custom_pension?.employee_rate || 0.07,
-                              employer_rate: input.custom_pension?.employer_rate || 0.0833,
-                              base_salary_only: !!checked
-                            }
-                          })}
+
+                      <div>
+                        <Label htmlFor="capital_income_annual">הכנסה הונית שנתית (לחישוב מס יסף)</Label>
+                        <Input
+                          id="capital_income_annual"
+                          type="number"
+                          min="0"
+                          value={input.capital_income_annual || 0}
+                          onChange={(e) => updateInput({ capital_income_annual: parseInt(e.target.value) || 0 })}
+                          placeholder="למשל: RSU במסלול הוני, רווחי הון"
                         />
-                        <Label htmlFor="pension_base_only" className="text-xs">רק על שכר בסיס (ללא בונוסים)</Label>
                       </div>
-                    </div>
-                  )}
 
-                  {!input.use_study_fund && (
-                    <div className="bg-muted/50 p-3 rounded-lg space-y-3">
-                      <Label className="text-sm font-medium">קרן השתלמות מותאמת אישית</Label>
-                      <div className="grid grid-cols-2 gap-2">
-                        <div>
-                          <Label htmlFor="custom_study_employee" className="text-xs">אחוז עובד</Label>
-                          <Input
-                            id="custom_study_employee"
-                            type="number"
-                            step="0.1"
-                            min="0"
-                            max="10"
-                            value={input.custom_study_fund?.employee_rate ? (input.custom_study_fund.employee_rate * 100) : ''}
-                            onChange={(e) => {
-                              const rate = parseFloat(e.target.value) / 100 || 0;
-                              updateInput({ 
+                      {!input.use_standard_pension && (
+                        <div className="bg-muted/50 p-3 rounded-lg space-y-3">
+                          <Label className="text-sm font-medium">הפרשת פנסיה מותאמת אישית</Label>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <Label htmlFor="custom_pension_employee" className="text-xs">אחוז עובד</Label>
+                              <Input
+                                id="custom_pension_employee"
+                                type="number"
+                                step="0.1"
+                                min="0"
+                                max="15"
+                                value={input.custom_pension?.employee_rate ? (input.custom_pension.employee_rate * 100) : ''}
+                                onChange={(e) => {
+                                  const rate = parseFloat(e.target.value) / 100 || 0;
+                                  updateInput({ 
+                                    custom_pension: { 
+                                      ...input.custom_pension,
+                                      employee_rate: rate,
+                                      employer_rate: input.custom_pension?.employer_rate || 0.0833,
+                                      base_salary_only: input.custom_pension?.base_salary_only || false
+                                    }
+                                  });
+                                }}
+                                placeholder="7"
+                              />
+                            </div>
+                            <div>
+                              <Label htmlFor="custom_pension_employer" className="text-xs">אחוז מעסיק</Label>
+                              <Input
+                                id="custom_pension_employer"
+                                type="number"
+                                step="0.1"
+                                min="0"
+                                max="20"
+                                value={input.custom_pension?.employer_rate ? (input.custom_pension.employer_rate * 100) : ''}
+                                onChange={(e) => {
+                                  const rate = parseFloat(e.target.value) / 100 || 0;
+                                  updateInput({ 
+                                    custom_pension: { 
+                                      ...input.custom_pension,
+                                      employee_rate: input.custom_pension?.employee_rate || 0.07,
+                                      employer_rate: rate,
+                                      base_salary_only: input.custom_pension?.base_salary_only || false
+                                    }
+                                  });
+                                }}
+                                placeholder="8.33"
+                              />
+                            </div>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="pension_base_only"
+                              checked={input.custom_pension?.base_salary_only || false}
+                              onCheckedChange={(checked) => updateInput({ 
+                                custom_pension: { 
+                                  ...input.custom_pension,
+                                  employee_rate: input.custom_pension?.employee_rate || 0.07,
+                                  employer_rate: input.custom_pension?.employer_rate || 0.0833,
+                                  base_salary_only: !!checked
+                                }
+                              })}
+                            />
+                            <Label htmlFor="pension_base_only" className="text-xs">רק על שכר בסיס (ללא בונוסים)</Label>
+                          </div>
+                        </div>
+                      )}
+
+                      {!input.use_study_fund && (
+                        <div className="bg-muted/50 p-3 rounded-lg space-y-3">
+                          <Label className="text-sm font-medium">קרן השתלמות מותאמת אישית</Label>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <Label htmlFor="custom_study_employee" className="text-xs">אחוז עובד</Label>
+                              <Input
+                                id="custom_study_employee"
+                                type="number"
+                                step="0.1"
+                                min="0"
+                                max="10"
+                                value={input.custom_study_fund?.employee_rate ? (input.custom_study_fund.employee_rate * 100) : ''}
+                                onChange={(e) => {
+                                  const rate = parseFloat(e.target.value) / 100 || 0;
+                                  updateInput({ 
+                                    custom_study_fund: { 
+                                      ...input.custom_study_fund,
+                                      employee_rate: rate,
+                                      employer_rate: input.custom_study_fund?.employer_rate || 0.075,
+                                      base_salary_only: input.custom_study_fund?.base_salary_only || true
+                                    }
+                                  });
+                                }}
+                                placeholder="2.5"
+                              />
+                            </div>
+                            <div>
+                              <Label htmlFor="custom_study_employer" className="text-xs">אחוז מעסיק</Label>
+                              <Input
+                                id="custom_study_employer"
+                                type="number"
+                                step="0.1"
+                                min="0"
+                                max="15"
+                                value={input.custom_study_fund?.employer_rate ? (input.custom_study_fund.employer_rate * 100) : ''}
+                                onChange={(e) => {
+                                  const rate = parseFloat(e.target.value) / 100 || 0;
+                                  updateInput({ 
+                                    custom_study_fund: { 
+                                      ...input.custom_study_fund,
+                                      employee_rate: input.custom_study_fund?.employee_rate || 0.025,
+                                      employer_rate: rate,
+                                      base_salary_only: input.custom_study_fund?.base_salary_only || true
+                                    }
+                                  });
+                                }}
+                                placeholder="7.5"
+                              />
+                            </div>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="study_base_only"
+                              checked={input.custom_study_fund?.base_salary_only !== false}
+                              onCheckedChange={(checked) => updateInput({ 
                                 custom_study_fund: { 
                                   ...input.custom_study_fund,
-                                  employee_rate: rate,
+                                  employee_rate: input.custom_study_fund?.employee_rate || 0.025,
                                   employer_rate: input.custom_study_fund?.employer_rate || 0.075,
-                                  base_salary_only: input.custom_study_fund?.base_salary_only || true
+                                  base_salary_only: !!checked
                                 }
-                              });
-                            }}
-                            placeholder="2.5"
-                          />
+                              })}
+                            />
+                            <Label htmlFor="study_base_only" className="text-xs">רק על שכר בסיס (ללא בונוסים)</Label>
+                          </div>
                         </div>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card className="shadow-medium">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Car className="h-5 w-5" />
+                        הטבות בשווי כסף
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-2 gap-2">
                         <div>
-                          <Label htmlFor="custom_study_employer" className="text-xs">אחוז מעסיק</Label>
+                          <Label htmlFor="car_list_price" className="text-xs">מחיר מחירון רכב</Label>
                           <Input
-                            id="custom_study_employer"
+                            id="car_list_price"
                             type="number"
-                            step="0.1"
                             min="0"
-                            max="15"
-                            value={input.custom_study_fund?.employer_rate ? (input.custom_study_fund.employer_rate * 100) : ''}
+                            value={car?.list_price || 0}
                             onChange={(e) => {
-                              const rate = parseFloat(e.target.value) / 100 || 0;
-                              updateInput({ 
-                                custom_study_fund: { 
-                                  ...input.custom_study_fund,
-                                  employee_rate: input.custom_study_fund?.employee_rate || 0.025,
-                                  employer_rate: rate,
-                                  base_salary_only: input.custom_study_fund?.base_salary_only || true
-                                }
-                              });
+                              const listPrice = parseInt(e.target.value) || 0;
+                              setBenefit('car', listPrice > 0
+                                ? { type: 'car', list_price: listPrice, vehicle_type: car?.vehicle_type || 'regular' }
+                                : null);
                             }}
-                            placeholder="7.5"
                           />
                         </div>
+                        <div>
+                          <Label className="text-xs">סוג רכב</Label>
+                          <Select
+                            value={car?.vehicle_type || 'regular'}
+                            disabled={!car}
+                            onValueChange={(value: VehicleType) => setBenefit('car', { ...car, vehicle_type: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="regular">רגיל</SelectItem>
+                              <SelectItem value="hybrid">היברידי</SelectItem>
+                              <SelectItem value="plug_in_hybrid">היברידי נטען</SelectItem>
+                              <SelectItem value="electric">חשמלי</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
+
                       <div className="flex items-center space-x-2">
                         <Checkbox
-                          id="study_base_only"
-                          checked={input.custom_study_fund?.base_salary_only !== false}
-                          onCheckedChange={(checked) => updateInput({ 
-                            custom_study_fund: { 
-                              ...input.custom_study_fund,
-                              employee_rate: input.custom_study_fund?.employee_rate || 0.025,
-                              employer_rate: input.custom_study_fund?.employer_rate || 0.075,
-                              base_salary_only: !!checked
-                            }
-                          })}
+                          id="phone_benefit"
+                          checked={!!getBenefit('phone')}
+                          onCheckedChange={(checked) => setBenefit('phone', checked ? { type: 'phone' } : null)}
                         />
-                        <Label htmlFor="study_base_only" className="text-xs">רק על שכר בסיס (ללא בונוסים)</Label>
+                        <Label htmlFor="phone_benefit">טלפון נייד מהעבודה</Label>
                       </div>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
+
+                      <div>
+                        <Label htmlFor="meals_benefit" className="text-xs">שווי ארוחות חודשי</Label>
+                        <Input
+                          id="meals_benefit"
+                          type="number"
+                          min="0"
+                          value={meals?.monthly_value || 0}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value) || 0;
+                            setBenefit('meals', value > 0 ? { type: 'meals', monthly_value: value } : null);
+                          }}
+                        />
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="shadow-medium">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <CalendarDays className="h-5 w-5" />
+                        אופן חישוב המס
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label htmlFor="months_worked_in_year" className="text-xs">חודשי עבודה בשנה</Label>
+                          <Input
+                            id="months_worked_in_year"
+                            type="number"
+                            min="1"
+                            max="12"
+                            value={input.months_worked_in_year}
+                            onChange={(e) => updateInput({
+                              months_worked_in_year: Math.min(12, Math.max(1, parseInt(e.target.value) || 1)),
+                            })}
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">תצוגה</Label>
+                          <Select
+                            value={input.partial_year_view || 'monthly_withholding'}
+                            disabled={input.months_worked_in_year >= 12 || input.tax_calculation_mode === 'cumulative' || track === 'multi_employer'}
+                            onValueChange={(value: PartialYearView) => updateInput({ partial_year_view: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="monthly_withholding">ניכוי חודשי</SelectItem>
+                              <SelectItem value="year_end_liability">חבות שנתית</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+
+                      {/* Each employer withholds monthly, so cumulative payslips do not apply */}
+                      {track !== 'multi_employer' && (
+                        <>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="cumulative_mode"
+                              checked={input.tax_calculation_mode === 'cumulative'}
+                              onCheckedChange={(checked) => updateInput({
+                                tax_calculation_mode: checked ? 'cumulative' : 'monthly',
+                                cumulative: input.cumulative || {
+                                  month: new Date().getMonth() + 1,
+                                  ytd_taxable_gross: 0,
+                                  ytd_tax_withheld: 0,
+                                  ytd_credit_points_used: 0,
+                                },
+                              })}
+                            />
+                            <Label htmlFor="cumulative_mode">חישוב מצטבר (לפי נתוני תלושים קודמים)</Label>
+                          </div>
+
+                          {input.tax_calculation_mode === 'cumulative' && input.cumulative && (
+                            <div className="bg-muted/50 p-3 rounded-lg space-y-3">
+                              <div>
+                                <Label className="text-xs">חודש נוכחי</Label>
+                                <Select
+                                  value={String(input.cumulative.month)}
+                                  onValueChange={(value) => updateCumulative({ month: parseInt(value) })}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
+                                      <SelectItem key={month} value={String(month)}>{month}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                              <div>
+                                <Label htmlFor="ytd_taxable_gross" className="text-xs">שכר חייב במס מצטבר (חודשים קודמים)</Label>
+                                <Input
+                                  id="ytd_taxable_gross"
+                                  type="number"
+                                  min="0"
+                                  value={input.cumulative.ytd_taxable_gross}
+                                  onChange={(e) => updateCumulative({ ytd_taxable_gross: parseInt(e.target.value) || 0 })}
+                                />
+                              </div>
+                              <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                  <Label htmlFor="ytd_tax_withheld" className="text-xs">מס שנוכה עד כה</Label>
+                                  <Input
+                                    id="ytd_tax_withheld"
+                                    type="number"
+                                    min="0"
+                                    value={input.cumulative.ytd_tax_withheld}
+                                    onChange={(e) => updateCumulative({ ytd_tax_withheld: parseInt(e.target.value) || 0 })}
+                                  />
+                                </div>
+                                <div>
+                                  <Label htmlFor="ytd_credit_points_used" className="text-xs">נקודות זיכוי שנוצלו</Label>
+                                  <Input
+                                    id="ytd_credit_points_used"
+                                    type="number"
+                                    step="0.25"
+                                    min="0"
+                                    value={input.cumulative.ytd_credit_points_used}
+                                    onChange={(e) => updateCumulative({ ytd_credit_points_used: parseFloat(e.target.value) || 0 })}
+                                  />
+                                </div>
+                              </div>
+                              <div>
+                                <Label htmlFor="ytd_other_credits" className="text-xs">זיכויים נוספים שנוצלו (פנסיה, תרומות ועוד)</Label>
+                                <Input
+                                  id="ytd_other_credits"
+                                  type="number"
+                                  min="0"
+                                  value={input.cumulative.ytd_other_credits || 0}
+                                  onChange={(e) => updateCumulative({ ytd_other_credits: parseFloat(e.target.value) || 0 })}
+                                />
+                              </div>
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card className="shadow-medium">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Medal className="h-5 w-5" />
+                        מילואים
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label htmlFor="reserve_days_month" className="text-xs">ימי מילואים החודש</Label>
+                        <Input
+                          id="reserve_days_month"
+                          type="number"
+                          min="0"
+                          max="31"
+                          value={input.reserve_duty?.days_current_month || 0}
+                          onChange={(e) => updateReserveDuty({ days_current_month: parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="reserve_days_year" className="text-xs">ימי מילואים בשנה</Label>
+                        <Input
+                          id="reserve_days_year"
+                          type="number"
+                          min="0"
+                          value={input.reserve_duty?.days_in_year || 0}
+                          onChange={(e) => updateReserveDuty({ days_in_year: parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <Label htmlFor="reserve_grants" className="text-xs">מענקי מילואים שנתיים (פטורים ממס)</Label>
+                        <Input
+                          id="reserve_grants"
+                          type="number"
+                          min="0"
+                          value={input.reserve_duty?.grants_annual || 0}
+                          onChange={(e) => updateReserveDuty({ grants_annual: parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
+                    </CardContent>
+                  </Card>
+                </>
+              )}
 
               <Card className="shadow-medium">
                 <CardHeader>
@@ -348,10 +999,19 @@ export function SalaryCalculator() {
                     </Button>
                   </div>
 
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="new_child_disabled"
+                      checked={newChildDisabled}
+                      onCheckedChange={(checked) => setNewChildDisabled(!!checked)}
+                    />
+                    <Label htmlFor="new_child_disabled" className="text-xs">ילד עם מוגבלות</Label>
+                  </div>
+
                   <div className="space-y-2">
                     {input.children.map((child, index) => (
                       <div key={index} className="flex items-center justify-between p-2 bg-muted rounded">
-                        <span>ילד בן {child.age}</span>
+                        <span>ילד בן {child.age}{child.disabled && ' (עם מוגבלות)'}</span>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -364,174 +1024,526 @@ export function SalaryCalculator() {
                   </div>
                 </CardContent>
               </Card>
-            </div>
 
-            {/* Results Panel */}
-            <div className="lg:col-span-2 space-y-6">
-              {/* Main Result */}
-              <Card className="shadow-strong bg-gradient-success text-white">
-                <CardContent className="p-8">
-                  <div className="text-center">
-                    <p className="text-lg opacity-90 mb-2">הנטו המשוער שלך</p>
-                    <p className="text-5xl font-bold mb-4">{formatCurrency(result.net)}</p>
-                    <div className="flex justify-center gap-4 text-sm opacity-90">
-                      <span>מתוך {formatCurrency(result.gross)} ברוטו</span>
-                      <span>•</span>
-                      <span>חיסכון של {formatCurrency(result.total_deductions)}</span>
+              <Card className="shadow-medium">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <GraduationCap className="h-5 w-5" />
+                    השכלה ושירות
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="academic_degree"
+                      checked={!!degree}
+                      onCheckedChange={(checked) => updateDegree(checked ? {} : null)}
+                    />
+                    <Label htmlFor="academic_degree">סיום תואר אקדמי</Label>
+                  </div>
+                  {degree && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select
+                        value={degree.type}
+                        onValueChange={(value: AcademicDegree['type']) => updateDegree({ type: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="bachelor">תואר ראשון</SelectItem>
+                          <SelectItem value="master">תואר שני</SelectItem>
+                          <SelectItem value="doctorate">תואר שלישי</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        aria-label="שנת סיום"
+                        value={degree.completion_year}
+                        onChange={(e) => updateDegree({ completion_year: parseInt(e.target.value) || input.tax_year })}
+                      />
                     </div>
+                  )}
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="military_service"
+                      checked={!!input.military_service}
+                      onCheckedChange={(checked) => updateMilitaryService(checked ? {} : null)}
+                    />
+                    <Label htmlFor="military_service">חייל משוחרר / שירות לאומי</Label>
                   </div>
+                  {input.military_service && (
+                    <div className="space-y-2">
+                      <Select
+                        value={input.military_service.type}
+                        onValueChange={(value: MilitaryService['type']) => updateMilitaryService({ type: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="military">שירות צבאי</SelectItem>
+                          <SelectItem value="national_service">שירות לאומי</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label htmlFor="discharge_date" className="text-xs">חודש שחרור</Label>
+                          <Input
+                            id="discharge_date"
+                            type="month"
+                            value={input.military_service.discharge_date}
+                            onChange={(e) => updateMilitaryService({ discharge_date: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="service_months" className="text-xs">חודשי שירות</Label>
+                          <Input
+                            id="service_months"
+                            type="number"
+                            min="0"
+                            value={input.military_service.service_months}
+                            onChange={(e) => updateMilitaryService({ service_months: parseInt(e.target.value) || 0 })}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
+            </div>
 
-              {/* Breakdown Cards */}
-              <div className="grid md:grid-cols-2 gap-4">
-                {(result.pension_employee > 0 || result.study_fund_employee > 0 || result.manual_deductions > 0) && (
-                  <Card className="shadow-medium md:col-span-2">
-                    <CardHeader className="pb-3">
-                      <CardTitle className="flex items-center gap-2 text-lg">
-                        <TrendingUp className="h-4 w-4" />
-                        הפרשות וניכויים
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-3">
-                      {result.pension_employee > 0 && (
-                        <div className="flex justify-between">
-                          <span className="text-muted-foreground">פנסיה (עובד)</span>
-                          <span className="font-semibold">{formatCurrency(result.pension_employee)}</span>
+            {/* Results Panel */}
+            <div className="lg:col-span-2 space-y-6">
+              {track === 'multi_employer' ? (
+                <MultiEmployerCalculator personal={salaryInput} />
+              ) : track === 'self_employed' ? (
+                <SelfEmployedCalculator personal={input} />
+              ) : track === 'annual_refund' ? (
+                <AnnualRefundCalculator personal={input} />
+              ) : track === 'equity' ? (
+                <EquityCalculator personal={salaryInput} />
+              ) : track === 'severance' ? (
+                <SeveranceCalculator personal={salaryInput} />
+              ) : track === 'parental_leave' ? (
+                <ParentalLeaveCalculator personal={salaryInput} />
+              ) : (
+                <>
+                  {/* Main Result */}
+                  <Card className="shadow-strong bg-gradient-success text-white">
+                    <CardContent className="p-8">
+                      {mode === 'net_to_gross' ? (
+                        <div className="text-center">
+                          <p className="text-lg opacity-90 mb-2">הברוטו הנדרש</p>
+                          <p className="text-5xl font-bold mb-4">{formatCurrency(result.gross)}</p>
+                          <div className="flex justify-center gap-4 text-sm opacity-90">
+                            <span>לנטו של {formatCurrency(result.net)}</span>
+                            <span>•</span>
+                            <span>ניכויים של {formatCurrency(result.total_deductions)}</span>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="text-center">
+                          <p className="text-lg opacity-90 mb-2">הנטו המשוער שלך</p>
+                          <p className="text-5xl font-bold mb-4">{formatCurrency(result.net)}</p>
+                          <div className="flex justify-center gap-4 text-sm opacity-90">
+                            <span>מתוך {formatCurrency(result.gross)} ברוטו</span>
+                            <span>•</span>
+                            <span>חיסכון של {formatCurrency(result.total_deductions)}</span>
+                          </div>
                         </div>
                       )}
-                      {result.study_fund_employee > 0 && (
+                    </CardContent>
+                  </Card>
+
+                  {/* Breakdown Cards */}
+                  <div className="grid md:grid-cols-2 gap-4">
+                    {result.breakdown.hourly_wage && (
+                      <Card className="shadow-medium md:col-span-2">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="flex items-center gap-2 text-lg">
+                            <Clock className="h-4 w-4" />
+                            רכיבי שכר שעתי
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">שעות רגילות (שכר יסוד)</span>
+                            <span className="font-semibold">{formatCurrency(result.breakdown.hourly_wage.base_pay)}</span>
+                          </div>
+                          {result.breakdown.hourly_wage.overtime_125_pay > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">שעות נוספות 125%</span>
+                              <span className="font-semibold">{formatCurrency(result.breakdown.hourly_wage.overtime_125_pay)}</span>
+                            </div>
+                          )}
+                          {result.breakdown.hourly_wage.overtime_150_pay > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">שעות נוספות 150%</span>
+                              <span className="font-semibold">{formatCurrency(result.breakdown.hourly_wage.overtime_150_pay)}</span>
+                            </div>
+                          )}
+                          {result.breakdown.hourly_wage.night_premium > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">תוספת לילה</span>
+                              <span className="font-semibold">{formatCurrency(result.breakdown.hourly_wage.night_premium)}</span>
+                            </div>
+                          )}
+                          {result.breakdown.hourly_wage.weekend_premium > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">תוספת מנוחה שבועית</span>
+                              <span className="font-semibold">{formatCurrency(result.breakdown.hourly_wage.weekend_premium)}</span>
+                            </div>
+                          )}
+                          <Separator />
+                          <div className="flex justify-between font-semibold">
+                            <span>ברוטו</span>
+                            <span>{formatCurrency(result.breakdown.hourly_wage.gross)}</span>
+                          </div>
+                          {result.breakdown.hourly_wage.violations.length > 0 && (
+                            <div className="space-y-1">
+                              {result.breakdown.hourly_wage.violations.map((violation, index) => (
+                                <div key={index} className="text-sm text-destructive">{violation}</div>
+                              ))}
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    )}
+                    {(result.pension_employee > 0 || result.study_fund_employee > 0 || result.manual_deductions > 0 || result.benefits_in_kind > 0) && (
+                      <Card className="shadow-medium md:col-span-2">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="flex items-center gap-2 text-lg">
+                            <TrendingUp className="h-4 w-4" />
+                            הפרשות וניכויים
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                          {result.pension_employee > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">פנסיה (עובד)</span>
+                              <span className="font-semibold">{formatCurrency(result.pension_employee)}</span>
+                            </div>
+                          )}
+                          {result.study_fund_employee > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">קרן השתלמות</span>
+                              <span className="font-semibold">{formatCurrency(result.study_fund_employee)}</span>
+                            </div>
+                          )}
+                          {result.manual_deductions > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">ניכויים נוספים</span>
+                              <span className="font-semibold">{formatCurrency(result.manual_deductions)}</span>
+                            </div>
+                          )}
+                          {(result.breakdown.contributions.pension_employer > 0 || result.breakdown.contributions.study_fund_employer > 0) && (
+                            <>
+                              <Separator />
+                              <div className="text-sm text-muted-foreground">הפרשות מעסיק:</div>
+                              {result.breakdown.contributions.pension_employer > 0 && (
+                                <div className="flex justify-between text-sm">
+                                  <span className="text-muted-foreground">פנסיה (מעסיק)</span>
+                                  <span className="font-semibold text-success">+{formatCurrency(result.breakdown.contributions.pension_employer)}</span>
+                                </div>
+                              )}
+                              {result.breakdown.contributions.study_fund_employer > 0 && (
+                                <div className="flex justify-between text-sm">
+                                  <span className="text-muted-foreground">קרן השתלמות (מעסיק)</span>
+                                  <span className="font-semibold text-success">+{formatCurrency(result.breakdown.contributions.study_fund_employer)}</span>
+                                </div>
+                              )}
+                            </>
+                          )}
+                          {result.breakdown.benefits_in_kind.length > 0 && (
+                            <>
+                              <Separator />
+                              <div className="text-sm text-muted-foreground">הטבות בשווי כסף (לא משולמות במזומן):</div>
+                              {result.breakdown.benefits_in_kind.map((benefit, index) => (
+                                <div key={index} className="flex justify-between text-sm">
+                                  <span className="text-muted-foreground">{benefit.description}</span>
+                                  <span className="font-semibold">{formatCurrency(benefit.monthly_value)}</span>
+                                </div>
+                              ))}
+                            </>
+                          )}
+                          {result.taxable_benefits > 0 && (
+                            <>
+                              <Separator />
+                              <div className="text-sm text-muted-foreground">זקיפת הטבה (חייבת במס ובביטוח לאומי):</div>
+                              {result.breakdown.taxable_benefits.pension_employer > 0 && (
+                                <div className="flex justify-between text-sm">
+                                  <span className="text-muted-foreground">פנסיה מעל התקרה</span>
+                                  <span className="font-semibold">{formatCurrency(result.breakdown.taxable_benefits.pension_employer)}</span>
+                                </div>
+                              )}
+                              {result.breakdown.taxable_benefits.study_fund_employer > 0 && (
+                                <div className="flex justify-between text-sm">
+                                  <span className="text-muted-foreground">קרן השתלמות מעל התקרה</span>
+                                  <span className="font-semibold">{formatCurrency(result.breakdown.taxable_benefits.study_fund_employer)}</span>
+                                </div>
+                              )}
+                            </>
+                          )}
+                        </CardContent>
+                      </Card>
+                    )}
+                    <Card className="shadow-medium">
+                      <CardHeader className="pb-3">
+                        <CardTitle className="flex items-center gap-2 text-lg">
+                          <DollarSign className="h-4 w-4" />
+                          מס הכנסה
+                          <Tooltip>
+                            <TooltipTrigger>
+                              <Info className="h-4 w-4 text-muted-foreground" />
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>מס הכנסה מחושב לפי מדרגות המס לשנת {result.tax_year}</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {result.foreign_expert_deduction > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">ניכוי הוצאות מומחה חוץ מההכנסה</span>
+                            <span>-{formatCurrency(result.foreign_expert_deduction)}</span>
+                          </div>
+                        )}
                         <div className="flex justify-between">
-                          <span className="text-muted-foreground">קרן השתלמות</span>
-                          <span className="font-semibold">{formatCurrency(result.study_fund_employee)}</span>
+                          <span className="text-muted-foreground">לפני זיכויים</span>
+                          <span className="font-semibold">{formatCurrency(result.income_tax_before_credits)}</span>
                         </div>
-                      )}
-                      {result.manual_deductions > 0 && (
+                        {result.surtax > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">מתוכו מס יסף</span>
+                            <span>{formatCurrency(result.surtax)}</span>
+                          </div>
+                        )}
                         <div className="flex justify-between">
-                          <span className="text-muted-foreground">ניכויים נוספים</span>
-                          <span className="font-semibold">{formatCurrency(result.manual_deductions)}</span>
+                          <span className="text-muted-foreground">זיכויים ({formatPoints(result.credit_points.total)} נק')</span>
+                          <span className="font-semibold text-success">-{formatCurrency(result.credit_points.total_value)}</span>
                         </div>
-                      )}
-                      {(result.breakdown.contributions.pension_employer > 0 || result.breakdown.contributions.study_fund_employer > 0) && (
-                        <>
-                          <Separator />
-                          <div className="text-sm text-muted-foreground">הפרשות מעסיק:</div>
-                          {result.breakdown.contributions.pension_employer > 0 && (
+                        {result.pension_tax_credit > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">זיכוי פנסיה (סעיף 45א)</span>
+                            <span className="font-semibold text-success">-{formatCurrency(result.pension_tax_credit)}</span>
+                          </div>
+                        )}
+                        {result.breakdown.settlement_credit && result.settlement_tax_credit > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">
+                              זיכוי יישוב מזכה ({result.breakdown.settlement_credit.settlement}, {(result.breakdown.settlement_credit.rate * 100).toFixed(0)}%)
+                            </span>
+                            <span className="font-semibold text-success">-{formatCurrency(result.settlement_tax_credit)}</span>
+                          </div>
+                        )}
+                        {result.breakdown.surtax.capital_surtax > 0 && (
+                          <div className="flex justify-between text-xs">
+                            <span className="text-muted-foreground">מס יסף שנתי על הכנסה הונית (מחוץ לתלוש)</span>
+                            <span>{formatCurrency(result.breakdown.surtax.capital_surtax)}</span>
+                          </div>
+                        )}
+                        {result.donation_credit > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">זיכוי תרומות (סעיף 46)</span>
+                            <span className="font-semibold text-success">-{formatCurrency(result.donation_credit)}</span>
+                          </div>
+                        )}
+                        {result.donation_credit > 0 && (
+                          <div className="flex justify-between text-xs">
+                            <span className="text-muted-foreground">עלות התרומה בפועל</span>
+                            <span>{formatCurrency((input.donations_monthly || 0) - result.donation_credit)}</span>
+                          </div>
+                        )}
+                        {result.breakdown.reserve_duty && result.breakdown.reserve_duty.net_effect_monthly > 0 && (
+                          <div className="flex justify-between text-xs">
+                            <span className="text-muted-foreground">
+                              השפעת מילואים חודשית (זיכוי {formatCurrency(result.breakdown.reserve_duty.credit_value_monthly)} + מענקים {formatCurrency(result.breakdown.reserve_duty.grants_monthly)})
+                            </span>
+                            <span className="text-success">+{formatCurrency(result.breakdown.reserve_duty.net_effect_monthly)}</span>
+                          </div>
+                        )}
+                        {result.life_insurance_credit > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">זיכוי ביטוח חיים (סעיף 45א)</span>
+                            <span className="font-semibold text-success">-{formatCurrency(result.life_insurance_credit)}</span>
+                          </div>
+                        )}
+                        {result.breakdown.pension_tax_benefits.deduction > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">ניכוי פנסיה מההכנסה (סעיף 47)</span>
+                            <span className="font-semibold">{formatCurrency(result.breakdown.pension_tax_benefits.deduction)}</span>
+                          </div>
+                        )}
+                        <Separator />
+                        <div className="flex justify-between font-semibold">
+                          <span>אחרי זיכויים</span>
+                          <span>{formatCurrency(result.income_tax_after_credits)}</span>
+                        </div>
+                        {result.breakdown.partial_year && (
+                          <>
+                            <Separator />
                             <div className="flex justify-between text-sm">
-                              <span className="text-muted-foreground">פנסיה (מעסיק)</span>
-                              <span className="font-semibold text-success">+{formatCurrency(result.breakdown.contributions.pension_employer)}</span>
+                              <span className="text-muted-foreground">
+                                חבות מס שנתית ({result.breakdown.partial_year.months_worked} חודשי עבודה)
+                              </span>
+                              <span className="font-semibold">{formatCurrency(result.breakdown.partial_year.annual_tax_liability)}</span>
                             </div>
-                          )}
-                          {result.breakdown.contributions.study_fund_employer > 0 && (
+                          </>
+                        )}
+                        {result.breakdown.cumulative && (
+                          <>
+                            <Separator />
                             <div className="flex justify-between text-sm">
-                              <span className="text-muted-foreground">קרן השתלמות (מעסיק)</span>
-                              <span className="font-semibold text-success">+{formatCurrency(result.breakdown.contributions.study_fund_employer)}</span>
+                              <span className="text-muted-foreground">חבות מס מצטברת</span>
+                              <span className="font-semibold">{formatCurrency(result.breakdown.cumulative.ytd_tax_liability)}</span>
                             </div>
-                          )}
-                        </>
-                      )}
-                    </CardContent>
-                  </Card>
-                )}
-                <Card className="shadow-medium">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="flex items-center gap-2 text-lg">
-                      <DollarSign className="h-4 w-4" />
-                      מס הכנסה
-                      <Tooltip>
-                        <TooltipTrigger>
-                          <Info className="h-4 w-4 text-muted-foreground" />
-                        </TooltipTrigger>
-                        <TooltipContent>
-                          <p>מס הכנסה מחושב לפי מדרגות המס לשנת 2025</p>
-                        </TooltipContent>
-                      </Tooltip>
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-3">
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">לפני זיכויים</span>
-                      <span className="font-semibold">{formatCurrency(result.income_tax_before_credits)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">זיכויים ({result.credit_points.total} נק')</span>
-                      <span className="font-semibold text-success">-{formatCurrency(result.credit_points.total_value)}</span>
-                    </div>
-                    <Separator />
-                    <div className="flex justify-between font-semibold">
-                      <span>אחרי זיכויים</span>
-                      <span>{formatCurrency(result.income_tax_after_credits)}</span>
-                    </div>
-                  </CardContent>
-                </Card>
-
-                <Card className="shadow-medium">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="flex items-center gap-2 text-lg">
-                      <Shield className="h-4 w-4" />
-                      ביטוח לאומי ובריאות
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-3">
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">ביטוח לאומי</span>
-                      <span className="font-semibold">{formatCurrency(result.national_insurance)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">מס בריאות</span>
-                      <span className="font-semibold">{formatCurrency(result.health_tax)}</span>
-                    </div>
-                    <Separator />
-                    <div className="flex justify-between font-semibold">
-                      <span>סה"כ ביטוח</span>
-                      <span>{formatCurrency(result.national_insurance + result.health_tax)}</span>
-                    </div>
-                  </CardContent>
-                </Card>
-
-                <Card className="shadow-medium">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="flex items-center gap-2 text-lg">
-                      <TrendingUp className="h-4 w-4" />
-                      עלות מעסיק
-                      <Tooltip>
-                        <TooltipTrigger>
-                          <Info className="h-4 w-4 text-muted-foreground" />
-                        </TooltipTrigger>
-                        <TooltipContent>
-                          <p>כולל שכר ברוטו + ביטוח לאומי מעסיק + הפרשות פנסיה וקרן השתלמות</p>
-                        </TooltipContent>
-                      </Tooltip>
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="text-center">
-                      <p className="text-2xl font-bold text-primary">{formatCurrency(result.employer_cost)}</p>
-                      <p className="text-sm text-muted-foreground">עלות מעסיק כוללת</p>
-                    </div>
-                  </CardContent>
-                </Card>
-
-                <Card className="shadow-medium">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="text-lg">נקודות זיכוי</CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>אוטומטיות</span>
-                      <Badge variant="outline">{result.credit_points.auto}</Badge>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span>ידניות</span>
-                      <Badge variant="outline">{result.credit_points.manual}</Badge>
-                    </div>
-                    <div className="flex justify-between font-semibold">
-                      <span>סה"כ</span>
-                      <Badge>{result.credit_points.total}</Badge>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
+                            <div className="flex justify-between text-sm">
+                              <span className="text-muted-foreground">מס שנוכה מצטבר</span>
+                              <span className="font-semibold">{formatCurrency(result.breakdown.cumulative.ytd_tax_withheld)}</span>
+                            </div>
+                          </>
+                        )}
+                      </CardContent>
+                    </Card>
+
+                    <Card className="shadow-medium">
+                      <CardHeader className="pb-3">
+                        <CardTitle className="flex items-center gap-2 text-lg">
+                          <Shield className="h-4 w-4" />
+                          ביטוח לאומי ובריאות
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">
+                            סיווג
+                            {result.breakdown.ni_category === 'retirement' &&
+                              ` (גיל פרישה ${formatPoints(getRetirementAge(input.gender, input.age, input.tax_year))})`}
+                          </span>
+                          <Badge variant="outline">
+                            {input.residency === 'resident'
+                              ? NI_CATEGORY_LABELS[result.breakdown.ni_category]
+                              : RESIDENCY_LABELS[input.residency]}
+                          </Badge>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">ביטוח לאומי</span>
+                          <span className="font-semibold">{formatCurrency(result.national_insurance)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">מס בריאות</span>
+                          <span className="font-semibold">{formatCurrency(result.health_tax)}</span>
+                        </div>
+                        <Separator />
+                        <div className="flex justify-between font-semibold">
+                          <span>סה"כ ביטוח</span>
+                          <span>{formatCurrency(result.national_insurance + result.health_tax)}</span>
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card className="shadow-medium">
+                      <CardHeader className="pb-3">
+                        <CardTitle className="flex items-center gap-2 text-lg">
+                          <TrendingUp className="h-4 w-4" />
+                          עלות מעסיק
+                          <Tooltip>
+                            <TooltipTrigger>
+                              <Info className="h-4 w-4 text-muted-foreground" />
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>כולל שכר ברוטו + ביטוח לאומי מעסיק + הפרשות פנסיה וקרן השתלמות</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        <div className="text-center">
+                          <p className="text-2xl font-bold text-primary">{formatCurrency(result.employer_cost)}</p>
+                          <p className="text-sm text-muted-foreground">עלות מעסיק כוללת</p>
+                        </div>
+                        <Separator />
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">שכר ברוטו</span>
+                          <span className="font-semibold">{formatCurrency(result.breakdown.employer_cost.gross)}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">ביטוח לאומי מעסיק (שיעור מופחת)</span>
+                          <span className="font-semibold">{formatCurrency(result.breakdown.employer_cost.ni_low_part)}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">ביטוח לאומי מעסיק (שיעור מלא)</span>
+                          <span className="font-semibold">{formatCurrency(result.breakdown.employer_cost.ni_high_part)}</span>
+                        </div>
+                        {result.breakdown.employer_cost.pension_employer > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">פנסיה (מעסיק)</span>
+                            <span className="font-semibold">{formatCurrency(result.breakdown.employer_cost.pension_employer)}</span>
+                          </div>
+                        )}
+                        {result.breakdown.employer_cost.study_fund_employer > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">קרן השתלמות (מעסיק)</span>
+                            <span className="font-semibold">{formatCurrency(result.breakdown.employer_cost.study_fund_employer)}</span>
+                          </div>
+                        )}
+                        {result.breakdown.reserve_duty && result.breakdown.reserve_duty.employer_reimbursement > 0 && (
+                          <>
+                            <div className="flex justify-between text-sm">
+                              <span className="text-muted-foreground">
+                                החזר מילואים מביטוח לאומי ({result.breakdown.reserve_duty.days_current_month} ימים)
+                              </span>
+                              <span className="font-semibold text-success">
+                                -{formatCurrency(result.breakdown.reserve_duty.employer_reimbursement)}
+                              </span>
+                            </div>
+                            <div className="flex justify-between text-sm font-semibold">
+                              <span>עלות מעסיק לאחר החזר</span>
+                              <span>{formatCurrency(result.employer_cost - result.breakdown.reserve_duty.employer_reimbursement)}</span>
+                            </div>
+                          </>
+                        )}
+                      </CardContent>
+                    </Card>
+
+                    <Card className="shadow-medium">
+                      <CardHeader className="pb-3">
+                        <CardTitle className="text-lg">נקודות זיכוי</CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-2">
+                        {result.credit_points.items.map((item, index) => (
+                          <div key={index} className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">{item.description}</span>
+                            <Badge variant="outline">{formatPoints(item.points)}</Badge>
+                          </div>
+                        ))}
+                        <Separator />
+                        <div className="flex justify-between text-sm">
+                          <span>אוטומטיות</span>
+                          <Badge variant="outline">{formatPoints(result.credit_points.auto)}</Badge>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span>ידניות</span>
+                          <Badge variant="outline">{formatPoints(result.credit_points.manual)}</Badge>
+                        </div>
+                        <div className="flex justify-between font-semibold">
+                          <span>סה"כ</span>
+                          <Badge>{formatPoints(result.credit_points.total)}</Badge>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  <OneOffPayments personal={salaryInput} payments={oneOffPayments} onPaymentsChange={setOneOffPayments} />
+
+                  <SalaryTimeline personal={salaryInput} oneOffPayments={oneOffPayments} />
+
+                  <RateChart personal={salaryInput} />
+                </>
+              )}
 
               {/* Legal Disclaimer */}
               <Card className="shadow-soft bg-muted/50">
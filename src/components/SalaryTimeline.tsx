@@ -0,0 +1,231 @@
+import React, { useState, useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { CalendarDays } from 'lucide-react';
+import {
+  calculateYear,
+  formatCurrency,
+  formatNumber,
+  type CalculationInput,
+  type OneOffPayment,
+} from '@/lib/tax-calculator';
+
+interface SalaryTimelineProps {
+  personal: CalculationInput;
+  oneOffPayments: OneOffPayment[];
+}
+
+interface MonthlyAmount {
+  month: number; // 1-12
+  amount: number;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const chartConfig = {
+  net: { label: 'נטו', color: 'hsl(var(--success))' },
+  income_tax: { label: 'מס הכנסה', color: 'hsl(var(--destructive))' },
+  insurance: { label: 'ביטוח לאומי ובריאות', color: 'hsl(var(--warning))' },
+  savings: { label: 'פנסיה, השתלמות וניכויים', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+export function SalaryTimeline({ personal, oneOffPayments }: SalaryTimelineProps) {
+  const [raises, setRaises] = useState<MonthlyAmount[]>([]);
+  const [bonuses, setBonuses] = useState<MonthlyAmount[]>([]);
+  const [raiseDraft, setRaiseDraft] = useState<MonthlyAmount>({ month: 7, amount: personal.gross_monthly });
+  const [bonusDraft, setBonusDraft] = useState<MonthlyAmount>({ month: 12, amount: 0 });
+
+  const year = useMemo(() => calculateYear(MONTHS.map((month) => {
+    // The latest raise in effect replaces the base salary, including an hourly wage
+    const raise = raises.filter((item) => item.month <= month).sort((a, b) => a.month - b.month).pop();
+    return {
+      ...personal,
+      gross_monthly: raise?.amount ?? personal.gross_monthly,
+      hourly_wage: raise ? undefined : personal.hourly_wage,
+      bonus_current_month: bonuses
+        .filter((item) => item.month === month)
+        .reduce((total, item) => total + item.amount, 0),
+      one_off_payments_current_month: oneOffPayments.filter((payment) => payment.month === month),
+    };
+  })), [personal, raises, bonuses, oneOffPayments]);
+
+  const chartData = year.months.map(({ month, result }) => ({
+    month: String(month),
+    net: Math.round(result.net),
+    income_tax: Math.round(result.income_tax_after_credits),
+    insurance: Math.round(result.national_insurance + result.health_tax),
+    savings: Math.round(result.pension_employee + result.study_fund_employee + result.manual_deductions),
+  }));
+
+  const addRaise = () => {
+    if (raiseDraft.amount > 0) {
+      setRaises(prev => [...prev.filter((item) => item.month !== raiseDraft.month), raiseDraft]);
+    }
+  };
+
+  const addBonus = () => {
+    if (bonusDraft.amount > 0) {
+      setBonuses(prev => [...prev, bonusDraft]);
+    }
+  };
+
+  const monthSelect = (value: number, onChange: (month: number) => void) => (
+    <Select value={String(value)} onValueChange={(month) => onChange(parseInt(month))}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {MONTHS.map((month) => (
+          <SelectItem key={month} value={String(month)}>{month}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="shadow-medium">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarDays className="h-4 w-4" />
+          תחזית שנתית {year.tax_year}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>העלאת שכר</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {monthSelect(raiseDraft.month, (month) => setRaiseDraft(prev => ({ ...prev, month })))}
+              <Input
+                type="number"
+                min="0"
+                value={raiseDraft.amount}
+                onChange={(e) => setRaiseDraft(prev => ({ ...prev, amount: parseInt(e.target.value) || 0 }))}
+                placeholder="ברוטו חדש"
+              />
+              <Button onClick={addRaise} variant="outline">הוסף</Button>
+            </div>
+            {raises.map((raise) => (
+              <div key={raise.month} className="flex items-center justify-between p-2 bg-muted rounded">
+                <span>מחודש {raise.month}: {formatCurrency(raise.amount)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRaises(prev => prev.filter((item) => item !== raise))}
+                >
+                  הסר
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>בונוס</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {monthSelect(bonusDraft.month, (month) => setBonusDraft(prev => ({ ...prev, month })))}
+              <Input
+                type="number"
+                min="0"
+                value={bonusDraft.amount}
+                onChange={(e) => setBonusDraft(prev => ({ ...prev, amount: parseInt(e.target.value) || 0 }))}
+                placeholder="סכום"
+              />
+              <Button onClick={addBonus} variant="outline">הוסף</Button>
+            </div>
+            {bonuses.map((bonus, index) => (
+              <div key={index} className="flex items-center justify-between p-2 bg-muted rounded">
+                <span>חודש {bonus.month}: {formatCurrency(bonus.amount)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setBonuses(prev => prev.filter((item) => item !== bonus))}
+                >
+                  הסר
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <ChartContainer config={chartConfig} className="h-72 w-full">
+          <AreaChart data={chartData} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="month" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} tickFormatter={(value: number) => formatNumber(value)} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {(Object.keys(chartConfig) as (keyof typeof chartConfig)[]).map((key) => (
+              <Area
+                key={key}
+                dataKey={key}
+                type="step"
+                stackId="gross"
+                fill={`var(--color-${key})`}
+                stroke={`var(--color-${key})`}
+                fillOpacity={0.4}
+              />
+            ))}
+          </AreaChart>
+        </ChartContainer>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>חודש</TableHead>
+              <TableHead>ברוטו</TableHead>
+              <TableHead>בונוס וחד-פעמי</TableHead>
+              <TableHead>מס הכנסה</TableHead>
+              <TableHead>ב"ל ובריאות</TableHead>
+              <TableHead>נטו</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {year.months.map(({ month, input, result }) => (
+              <TableRow key={month}>
+                <TableCell>{month}</TableCell>
+                <TableCell>{formatCurrency(result.gross)}</TableCell>
+                <TableCell>{formatCurrency((input.bonus_current_month || 0) + result.one_off_payments)}</TableCell>
+                <TableCell>{formatCurrency(result.income_tax_after_credits)}</TableCell>
+                <TableCell>{formatCurrency(result.national_insurance + result.health_tax)}</TableCell>
+                <TableCell className="font-semibold">{formatCurrency(result.net)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Separator />
+        <div className="grid md:grid-cols-4 gap-4 text-center">
+          <div>
+            <p className="text-sm text-muted-foreground">ברוטו שנתי</p>
+            <p className="text-xl font-semibold">{formatCurrency(year.totals.gross)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">מס הכנסה</p>
+            <p className="text-xl font-semibold">{formatCurrency(year.totals.income_tax)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">ביטוח לאומי ובריאות</p>
+            <p className="text-xl font-semibold">{formatCurrency(year.totals.national_insurance + year.totals.health_tax)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">נטו שנתי</p>
+            <p className="text-xl font-semibold text-success">{formatCurrency(year.totals.net)}</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
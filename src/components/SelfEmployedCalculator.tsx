@@ -0,0 +1,216 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Briefcase, DollarSign, Shield, Receipt } from 'lucide-react';
+import { formatCurrency, formatPoints, type CalculationInput } from '@/lib/tax-calculator';
+import { calculateSelfEmployed, type SelfEmployedInput } from '@/lib/self-employed';
+
+interface SelfEmployedCalculatorProps {
+  personal: CalculationInput;
+}
+
+export function SelfEmployedCalculator({ personal }: SelfEmployedCalculatorProps) {
+  const [business, setBusiness] = useState<Omit<SelfEmployedInput, 'personal'>>({
+    revenue_annual: 300000,
+    expenses_annual: 50000,
+    pension_deposit_annual: 0,
+    study_fund_deposit_annual: 0,
+  });
+
+  const result = useMemo(() => calculateSelfEmployed({ ...business, personal }), [business, personal]);
+
+  const updateBusiness = (updates: Partial<Omit<SelfEmployedInput, 'personal'>>) => {
+    setBusiness(prev => ({ ...prev, ...updates }));
+  };
+
+  return (
+    <>
+      <Card className="shadow-medium">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5" />
+            נתוני העסק (שנתי)
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="revenue_annual">הכנסות</Label>
+            <Input
+              id="revenue_annual"
+              type="number"
+              min="0"
+              value={business.revenue_annual}
+              onChange={(e) => updateBusiness({ revenue_annual: parseInt(e.target.value) || 0 })}
+              className="text-lg font-semibold"
+            />
+          </div>
+          <div>
+            <Label htmlFor="expenses_annual">הוצאות מוכרות</Label>
+            <Input
+              id="expenses_annual"
+              type="number"
+              min="0"
+              value={business.expenses_annual}
+              onChange={(e) => updateBusiness({ expenses_annual: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="pension_deposit_annual">הפקדה לפנסיה</Label>
+            <Input
+              id="pension_deposit_annual"
+              type="number"
+              min="0"
+              value={business.pension_deposit_annual}
+              onChange={(e) => updateBusiness({ pension_deposit_annual: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="study_fund_deposit_annual">הפקדה לקרן השתלמות</Label>
+            <Input
+              id="study_fund_deposit_annual"
+              type="number"
+              min="0"
+              value={business.study_fund_deposit_annual}
+              onChange={(e) => updateBusiness({ study_fund_deposit_annual: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Main Result */}
+      <Card className="shadow-strong bg-gradient-success text-white">
+        <CardContent className="p-8">
+          <div className="text-center">
+            <p className="text-lg opacity-90 mb-2">הכנסה פנויה חודשית משוערת</p>
+            <p className="text-5xl font-bold mb-4">{formatCurrency(result.net_monthly)}</p>
+            <div className="flex justify-center gap-4 text-sm opacity-90">
+              <span>רווח שנתי {formatCurrency(result.profit)}</span>
+              <span>•</span>
+              <span>נטו שנתי {formatCurrency(result.net_annual)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <Card className="shadow-medium">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <DollarSign className="h-4 w-4" />
+              מס הכנסה שנתי
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">ניכוי פנסיה (סעיף 47)</span>
+              <span className="font-semibold">{formatCurrency(result.pension_deduction)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">ניכוי קרן השתלמות</span>
+              <span className="font-semibold">{formatCurrency(result.study_fund_deduction)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">ניכוי ביטוח לאומי (52%)</span>
+              <span className="font-semibold">{formatCurrency(result.ni_deduction)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">הכנסה חייבת</span>
+              <span className="font-semibold">{formatCurrency(result.taxable_income)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">לפני זיכויים</span>
+              <span className="font-semibold">{formatCurrency(result.income_tax_before_credits)}</span>
+            </div>
+            {result.surtax > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">מתוכו מס יסף</span>
+                <span>{formatCurrency(result.surtax)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">זיכויים ({formatPoints(result.credit_points.total)} נק')</span>
+              <span className="font-semibold text-success">-{formatCurrency(result.credit_points.value_annual)}</span>
+            </div>
+            {result.pension_credit > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">זיכוי פנסיה (סעיף 45א)</span>
+                <span className="font-semibold text-success">-{formatCurrency(result.pension_credit)}</span>
+              </div>
+            )}
+            {result.settlement_credit > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">זיכוי יישוב מזכה</span>
+                <span className="font-semibold text-success">-{formatCurrency(result.settlement_credit)}</span>
+              </div>
+            )}
+            {result.donation_credit > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">זיכוי תרומות (סעיף 46)</span>
+                <span className="font-semibold text-success">-{formatCurrency(result.donation_credit)}</span>
+              </div>
+            )}
+            {result.life_insurance_credit > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">זיכוי ביטוח חיים</span>
+                <span className="font-semibold text-success">-{formatCurrency(result.life_insurance_credit)}</span>
+              </div>
+            )}
+            <Separator />
+            <div className="flex justify-between font-semibold">
+              <span>מס לתשלום</span>
+              <span>{formatCurrency(result.income_tax)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-medium">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Shield className="h-4 w-4" />
+              ביטוח לאומי ובריאות (עצמאי)
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">ביטוח לאומי</span>
+              <span className="font-semibold">{formatCurrency(result.national_insurance)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">מס בריאות</span>
+              <span className="font-semibold">{formatCurrency(result.health_tax)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between font-semibold">
+              <span>סה"כ שנתי</span>
+              <span>{formatCurrency(result.national_insurance + result.health_tax)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-medium md:col-span-2">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Receipt className="h-4 w-4" />
+              מקדמות חודשיות משוערות
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                מקדמות מס הכנסה ({(result.advances.tax_rate_of_revenue * 100).toFixed(1)}% מהמחזור)
+              </span>
+              <span className="font-semibold">{formatCurrency(result.advances.tax_monthly)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">מקדמות ביטוח לאומי ובריאות</span>
+              <span className="font-semibold">{formatCurrency(result.advances.ni_monthly)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ELIGIBLE_SETTLEMENTS, SETTLEMENT_REGION_LABELS, type SettlementRegion } from '@/lib/settlements';
+
+interface SettlementComboboxProps {
+  value?: string;
+  taxYear: number;
+  onChange: (settlement: string | undefined) => void;
+}
+
+const REGIONS = Object.keys(SETTLEMENT_REGION_LABELS) as SettlementRegion[];
+
+export function SettlementCombobox({ value, taxYear, onChange }: SettlementComboboxProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal">
+          {value || 'יישוב שאינו מזכה'}
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+        <Command>
+          <CommandInput placeholder="חיפוש יישוב..." />
+          <CommandList>
+            <CommandEmpty>היישוב אינו ברשימת היישובים המזכים</CommandEmpty>
+            <CommandGroup>
+              <CommandItem
+                value="ללא"
+                onSelect={() => {
+                  onChange(undefined);
+                  setOpen(false);
+                }}
+              >
+                <Check className={cn('h-4 w-4', value ? 'opacity-0' : 'opacity-100')} />
+                יישוב שאינו מזכה
+              </CommandItem>
+            </CommandGroup>
+            {REGIONS.map((region) => (
+              <CommandGroup key={region} heading={SETTLEMENT_REGION_LABELS[region]}>
+                {ELIGIBLE_SETTLEMENTS.filter((settlement) => settlement.region === region).map((settlement) => {
+                  const rate = settlement.rates[taxYear] || 0;
+                  return (
+                    <CommandItem
+                      key={settlement.name}
+                      value={settlement.name}
+                      onSelect={() => {
+                        onChange(settlement.name);
+                        setOpen(false);
+                      }}
+                    >
+                      <Check className={cn('h-4 w-4', value === settlement.name ? 'opacity-100' : 'opacity-0')} />
+                      <span className="flex-1">{settlement.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {rate > 0 ? `${(rate * 100).toFixed(0)}%` : 'לא מזכה השנה'}
+                      </span>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,200 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Briefcase, DollarSign } from 'lucide-react';
+import { formatCurrency, getTaxSettings, type CalculationInput } from '@/lib/tax-calculator';
+import { calculateSeverance, type SeveranceInput, type SeveranceSpreadOption } from '@/lib/severance';
+
+interface SeveranceCalculatorProps {
+  personal: CalculationInput;
+}
+
+const optionLabel = (option: SeveranceSpreadOption) => {
+  switch (option.direction) {
+    case 'forward':
+      return `פריסה קדימה ל-${option.years} שנים`;
+    case 'back':
+      return option.years === 1 ? 'ייחוס לשנה הקודמת' : `פריסה אחורה ל-${option.years} שנים`;
+    default:
+      return 'ללא פריסה';
+  }
+};
+
+export function SeveranceCalculator({ personal }: SeveranceCalculatorProps) {
+  const [severance, setSeverance] = useState<Omit<SeveranceInput, 'tax_year' | 'annual_income_back'>>({
+    years_of_service: 10,
+    last_monthly_salary: personal.gross_monthly,
+    severance_amount: personal.gross_monthly * 10,
+    annual_income_termination_year: personal.gross_monthly * 6,
+    annual_income_forward: personal.gross_monthly * 12,
+  });
+  const [incomeBack, setIncomeBack] = useState<number>(personal.gross_monthly * 12);
+
+  const result = useMemo(
+    () => calculateSeverance({
+      ...severance,
+      tax_year: personal.tax_year,
+      annual_income_back: Array(getTaxSettings(personal.tax_year).severance.max_spread_years).fill(incomeBack),
+    }),
+    [severance, incomeBack, personal.tax_year]
+  );
+
+  const updateSeverance = (updates: Partial<Omit<SeveranceInput, 'tax_year' | 'annual_income_back'>>) => {
+    setSeverance(prev => ({ ...prev, ...updates }));
+  };
+
+  return (
+    <>
+      <Card className="shadow-medium">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5" />
+            פרטי הפרישה
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="severance_amount">סכום הפיצויים</Label>
+            <Input
+              id="severance_amount"
+              type="number"
+              min="0"
+              value={severance.severance_amount}
+              onChange={(e) => updateSeverance({ severance_amount: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="text-lg font-semibold"
+            />
+          </div>
+          <div>
+            <Label htmlFor="years_of_service">שנות ותק</Label>
+            <Input
+              id="years_of_service"
+              type="number"
+              min="0"
+              step="0.5"
+              value={severance.years_of_service}
+              onChange={(e) => updateSeverance({ years_of_service: Math.max(0, parseFloat(e.target.value) || 0) })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="last_monthly_salary">משכורת חודשית אחרונה</Label>
+            <Input
+              id="last_monthly_salary"
+              type="number"
+              min="0"
+              value={severance.last_monthly_salary}
+              onChange={(e) => updateSeverance({ last_monthly_salary: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="income_termination_year">הכנסה חייבת אחרת בשנת הפרישה</Label>
+            <Input
+              id="income_termination_year"
+              type="number"
+              min="0"
+              value={severance.annual_income_termination_year}
+              onChange={(e) => updateSeverance({ annual_income_termination_year: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="income_forward">הכנסה שנתית צפויה בשנים הבאות</Label>
+            <Input
+              id="income_forward"
+              type="number"
+              min="0"
+              value={severance.annual_income_forward || 0}
+              onChange={(e) => updateSeverance({ annual_income_forward: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="income_back">הכנסה שנתית בשנים הקודמות</Label>
+            <Input
+              id="income_back"
+              type="number"
+              min="0"
+              value={incomeBack}
+              onChange={(e) => setIncomeBack(parseInt(e.target.value) || 0)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Main Result */}
+      <Card className="shadow-strong bg-gradient-success text-white">
+        <CardContent className="p-8">
+          <div className="text-center">
+            <p className="text-lg opacity-90 mb-2">פיצויים נטו במסלול המיטבי</p>
+            <p className="text-5xl font-bold mb-4">{formatCurrency(result.best_option.net_severance)}</p>
+            <div className="flex justify-center gap-4 text-sm opacity-90">
+              <span>{optionLabel(result.best_option)}</span>
+              <span>•</span>
+              <span>מס {formatCurrency(result.best_option.total_tax)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-medium">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <DollarSign className="h-4 w-4" />
+            פטור ממס (סעיף 9(7א))
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">תקרת הפטור לתקופת העבודה</span>
+            <span className="font-semibold">{formatCurrency(result.exempt_ceiling)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">סכום פטור</span>
+            <span className="font-semibold text-success">{formatCurrency(result.exempt_amount)}</span>
+          </div>
+          <Separator />
+          <div className="flex justify-between font-semibold">
+            <span>סכום חייב במס</span>
+            <span>{formatCurrency(result.taxable_amount)}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result.taxable_amount > 0 && (
+        <Card className="shadow-medium">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">
+              אפשרויות פריסה (סעיף 8(ג)) - עד {result.max_spread_years} שנים
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>מסלול</TableHead>
+                  <TableHead>שנות המס</TableHead>
+                  <TableHead>מס</TableHead>
+                  <TableHead>נטו</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.options.map((option) => (
+                  <TableRow key={`${option.direction}-${option.years}`}>
+                    <TableCell>
+                      {optionLabel(option)}
+                      {option === result.best_option && <Badge className="mr-2">מיטבי</Badge>}
+                    </TableCell>
+                    <TableCell>{option.breakdown.map((item) => item.year).join(', ')}</TableCell>
+                    <TableCell>{formatCurrency(option.total_tax)}</TableCell>
+                    <TableCell className="font-semibold">{formatCurrency(option.net_severance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+// Annual tax refund estimator (החזר מס)
+// Recomputes the full-year liability from payslips or a Form 106 summary and compares it with the tax withheld
+
+import {
+  calculateCreditPoints,
+  calculateDonationCredit,
+  calculateIncomeTax,
+  calculateLifeInsuranceCredit,
+  type CalculationInput,
+  type TaxBracketBreakdown,
+} from './tax-calculator';
+import { calculateSettlementCredit } from './settlements';
+import { getTaxSettings } from './tax-settings';
+
+export interface PayslipSummary {
+  gross: number;
+  taxable_income: number;
+  tax_withheld: number;
+  credit_points_used: number;
+  pension_employee?: number;
+}
+
+// Annual employer certificate (טופס 106)
+export interface Form106Summary {
+  gross: number;
+  taxable_income: number;
+  tax_withheld: number;
+  credit_points_used: number; // Total points applied over the year
+  pension_employee?: number;
+}
+
+export interface AnnualRefundInput {
+  personal: Omit<CalculationInput, 'gross_monthly'>;
+  payslips?: PayslipSummary[]; // One entry per month worked
+  form_106?: Form106Summary; // Used when payslips are not given, with personal.months_worked_in_year
+
+  // Deductions and credits not applied through payroll
+  donations_annual?: number;
+  life_insurance_annual?: number;
+}
+
+export interface AnnualRefundResult {
+  tax_year: number;
+  months_worked: number;
+  annual_gross: number;
+  annual_taxable_income: number;
+  tax_before_credits: number; // Including surtax
+  surtax: number;
+  credit_points: {
+    entitled: number; // Annual points, for all months of the tax year
+    used: number;
+    unused: number;
+    value: number;
+  };
+  pension_credit: number;
+  settlement_credit: number;
+  donation_credit: number;
+  life_insurance_credit: number;
+  tax_liability: number;
+  tax_withheld: number;
+  refund: number; // Positive: expected refund, negative: balance due
+  breakdown: {
+    tax_by_bracket: TaxBracketBreakdown[];
+  };
+}
+
+function summarizePayslips(payslips: PayslipSummary[]): Form106Summary {
+  return payslips.reduce<Required<Form106Summary>>(
+    (summary, payslip) => ({
+      gross: summary.gross + payslip.gross,
+      taxable_income: summary.taxable_income + payslip.taxable_income,
+      tax_withheld: summary.tax_withheld + payslip.tax_withheld,
+      credit_points_used: summary.credit_points_used + payslip.credit_points_used,
+      pension_employee: summary.pension_employee + (payslip.pension_employee || 0),
+    }),
+    { gross: 0, taxable_income: 0, tax_withheld: 0, credit_points_used: 0, pension_employee: 0 }
+  );
+}
+
+export function calculateAnnualRefund(input: AnnualRefundInput): AnnualRefundResult {
+  const summary = input.payslips?.length ? summarizePayslips(input.payslips) : input.form_106;
+  if (!summary) {
+    throw new Error('Annual refund requires payslips or a Form 106 summary');
+  }
+
+  const monthsWorked = input.payslips?.length || input.personal.months_worked_in_year;
+  const taxYear = input.personal.tax_year;
+  const settings = getTaxSettings(taxYear);
+
+  // Annual brackets apply in full regardless of how many months were worked
+  const { tax: taxBeforeCredits, breakdown, surtax } = calculateIncomeTax(summary.taxable_income, taxYear);
+
+  // Credit points accrue for every month of the tax year, worked or not. Without a
+  // cumulative payslip month the month-dependent points are averaged over the year.
+  const monthlyPoints = calculateCreditPoints({
+    ...input.personal,
+    gross_monthly: 0,
+    tax_calculation_mode: 'monthly',
+    cumulative: undefined,
+  }) + input.personal.manual_credit_points;
+  const entitledPoints = monthlyPoints * 12;
+  const creditPointsValue = entitledPoints * settings.credit_points.value_monthly;
+
+  const pensionCreditEligible = Math.min(
+    summary.pension_employee || 0,
+    Math.min(summary.gross, settings.pension_tax.credit_salary_ceiling_monthly * 12) * settings.pension_tax.credit_deposit_rate
+  );
+  const pensionCredit = pensionCreditEligible * settings.pension_tax.credit_rate;
+  const settlementCredit = calculateSettlementCredit(
+    input.personal.residency === 'resident' ? input.personal.settlement : undefined,
+    summary.taxable_income,
+    taxYear
+  )?.credit_annual || 0;
+  const donationCredit = calculateDonationCredit(input.donations_annual || 0, summary.taxable_income, taxYear);
+  const lifeInsuranceCredit = calculateLifeInsuranceCredit(input.life_insurance_annual || 0, summary.gross, taxYear);
+
+  const taxLiability = Math.max(
+    0,
+    taxBeforeCredits - creditPointsValue - pensionCredit - settlementCredit - donationCredit - lifeInsuranceCredit
+  );
+
+  return {
+    tax_year: taxYear,
+    months_worked: monthsWorked,
+    annual_gross: summary.gross,
+    annual_taxable_income: summary.taxable_income,
+    tax_before_credits: taxBeforeCredits,
+    surtax,
+    credit_points: {
+      entitled: entitledPoints,
+      used: summary.credit_points_used,
+      unused: Math.max(0, entitledPoints - summary.credit_points_used),
+      value: creditPointsValue,
+    },
+    pension_credit: pensionCredit,
+    settlement_credit: settlementCredit,
+    donation_credit: donationCredit,
+    life_insurance_credit: lifeInsuranceCredit,
+    tax_liability: taxLiability,
+    tax_withheld: summary.tax_withheld,
+    refund: summary.tax_withheld - taxLiability,
+    breakdown: {
+      tax_by_bracket: breakdown,
+    },
+  };
+}
@@ -0,0 +1,157 @@
+// Credit points (נקודות זיכוי) rules engine
+// Every point granted is returned with the rule that produced it
+
+import type { CalculationInput, CreditPointItem } from './tax-calculator';
+import { parseMonth } from './months';
+import { getTaxSettings, type AgeRangePoints, type MonthRangePoints } from './tax-settings';
+
+function pointsForAge(table: AgeRangePoints[], age: number): number {
+  return table.find((range) => age >= range.min_age && age <= range.max_age)?.points || 0;
+}
+
+function pointsForMonth(schedule: MonthRangePoints[], month: number): number {
+  return schedule.find((range) => month >= range.from_month && month <= range.to_month)?.points || 0;
+}
+
+// Points that depend on the month: the given month of the tax year, or the
+// average over the whole tax year when no month is given
+function monthlyPoints(
+  taxYear: number,
+  month: number | undefined,
+  pointsInMonth: (monthIndex: number) => number
+): { points: number; months: number } {
+  const firstMonth = taxYear * 12;
+  if (month) {
+    const points = pointsInMonth(firstMonth + month - 1);
+    return { points, months: points > 0 ? 1 : 0 };
+  }
+
+  let total = 0;
+  let months = 0;
+  for (let i = 0; i < 12; i++) {
+    const points = pointsInMonth(firstMonth + i);
+    total += points;
+    if (points > 0) months++;
+  }
+  return { points: total / 12, months };
+}
+
+// Highest tier reached by the reserve days served in the tax year
+export function calculateReserveDutyPoints(days: number, taxYear: number): number {
+  return getTaxSettings(taxYear).reserve_duty.credit_points
+    .filter((tier) => days >= tier.min_days)
+    .reduce((points, tier) => Math.max(points, tier.points), 0);
+}
+
+export function calculateCreditPointItems(input: CalculationInput): CreditPointItem[] {
+  const settings = getTaxSettings(input.tax_year).credit_points;
+  const month = input.tax_calculation_mode === 'cumulative' ? input.cumulative?.month : undefined;
+  const isMother = input.gender === 'female';
+  const items: CreditPointItem[] = [];
+
+  const add = (points: number, description: string) => {
+    if (points > 0) {
+      items.push({ points, description });
+    }
+  };
+
+  // Base resident points, or the foreign worker points for non-resident workers
+  if (input.residency === 'resident') {
+    add(
+      isMother ? settings.resident_female : settings.resident_male,
+      isMother ? 'תושבת ישראל' : 'תושב ישראל'
+    );
+  } else if (input.residency === 'foreign_worker') {
+    add(settings.foreign_worker, isMother ? 'עובדת זרה' : 'עובד זר');
+  } else {
+    items.push({ points: 0, description: 'נקודות תושב - לתושבי ישראל בלבד' });
+  }
+
+  // The personal points below are for Israeli residents only. Other profiles see
+  // them listed at zero so the breakdown shows why they were dropped
+  const residentOnly: CreditPointItem[] = [];
+  const addResidentOnly = (points: number, description: string) => {
+    if (points > 0) {
+      residentOnly.push({ points, description });
+    }
+  };
+
+  // Children points, different for mothers and fathers
+  for (const child of input.children) {
+    const ageLabel = child.age === 0 ? 'בשנת לידתו' : `בגיל ${child.age}`;
+    addResidentOnly(
+      pointsForAge(isMother ? settings.children_mother : settings.children_father, child.age),
+      `${isMother ? 'אם' : 'אב'} לילד ${ageLabel}`
+    );
+    addResidentOnly(pointsForAge(settings.toddler, child.age), `נקודות פעוטות - ילד ${ageLabel}`);
+    if (child.disabled) {
+      addResidentOnly(settings.disabled_child, `ילד עם מוגבלות ${ageLabel}`);
+    }
+  }
+
+  if (input.single_parent) {
+    addResidentOnly(settings.single_parent, 'הורה יחיד');
+  }
+  if (input.pays_alimony) {
+    addResidentOnly(settings.alimony_payer, 'משלם מזונות לבן/בת זוג לשעבר');
+  }
+
+  // New immigrant: graduated schedule by months since aliyah
+  if (input.new_immigrant) {
+    const aliyahMonth = input.aliyah_date ? parseMonth(input.aliyah_date) : null;
+    if (aliyahMonth === null) {
+      addResidentOnly(settings.new_immigrant, 'עולה חדש');
+    } else {
+      const { points, months } = monthlyPoints(input.tax_year, month, (monthIndex) =>
+        pointsForMonth(settings.new_immigrant_schedule, monthIndex - aliyahMonth + 1)
+      );
+      addResidentOnly(points, month ? 'עולה חדש לפי חודשים מהעלייה' : `עולה חדש לפי חודשים מהעלייה (${months} חודשי זכאות בשנה)`);
+    }
+  }
+  if (input.returning_resident) {
+    addResidentOnly(settings.returning_resident, 'תושב חוזר');
+  }
+
+  // Academic degrees, for a limited number of years after completion
+  for (const degree of input.academic_degrees || []) {
+    const rule = settings.academic_degrees[degree.type];
+    const yearsSince = input.tax_year - degree.completion_year;
+    if (yearsSince >= 1 && yearsSince <= rule.years) {
+      const label = { bachelor: 'תואר ראשון', master: 'תואר שני', doctorate: 'תואר שלישי' }[degree.type];
+      addResidentOnly(rule.points, `${label} (הושלם ב-${degree.completion_year})`);
+    }
+  }
+
+  // Reservists, by the days served in the tax year
+  const reserveDays = input.reserve_duty?.days_in_year || 0;
+  addResidentOnly(calculateReserveDutyPoints(reserveDays, input.tax_year), `משרת מילואים (${reserveDays} ימים בשנה)`);
+
+  // Discharged soldiers and national service, for a period after discharge
+  if (input.military_service) {
+    const service = input.military_service;
+    const rules = settings.discharged_soldier;
+    const dischargeMonth = parseMonth(service.discharge_date);
+    const fullServiceMonths = service.type === 'national_service'
+      ? rules.full_service_months_national
+      : isMother ? rules.full_service_months_female : rules.full_service_months_male;
+    const servicePoints = service.service_months >= fullServiceMonths
+      ? rules.full_service_points
+      : service.service_months >= rules.min_service_months ? rules.partial_service_points : 0;
+
+    if (dischargeMonth !== null && servicePoints > 0) {
+      const { points, months } = monthlyPoints(input.tax_year, month, (monthIndex) =>
+        monthIndex > dischargeMonth && monthIndex <= dischargeMonth + rules.eligibility_months ? servicePoints : 0
+      );
+      const label = service.type === 'national_service' ? 'שירות לאומי' : 'חייל משוחרר';
+      addResidentOnly(points, month ? label : `${label} (${months} חודשי זכאות בשנה)`);
+    }
+  }
+
+  if (input.residency === 'resident') {
+    items.push(...residentOnly);
+  } else {
+    items.push(...residentOnly.map((item) => ({ points: 0, description: `${item.description} - לתושבי ישראל בלבד` })));
+  }
+
+  return items;
+}
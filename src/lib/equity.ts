@@ -0,0 +1,209 @@
+// Equity compensation: section 102 RSUs and options, and grants outside section 102
+// Each event is taxed on top of the year's salary; the payslip of the event month reports its ordinary income
+
+import {
+  calculateIncomeTax,
+  calculateNationalInsuranceAndHealth,
+  calculateSalary,
+  calculateSurtax,
+  type CalculationInput,
+  type CalculationResult,
+} from './tax-calculator';
+import { parseMonth } from './months';
+import { getTaxSettings } from './tax-settings';
+
+export type EquityInstrument = 'rsu' | 'option';
+
+// capital_102: trustee, capital gains track
+// ordinary_102: trustee, ordinary income track
+// non_102: no trustee (e.g. consultants, controlling shareholders), taxed as salary when vested or exercised
+export type EquityTrack = 'capital_102' | 'ordinary_102' | 'non_102';
+
+export interface EquityEvent {
+  description?: string;
+  instrument: EquityInstrument;
+  track: EquityTrack;
+  shares: number;
+  grant_date: string; // 'YYYY-MM'
+  event_date: string; // 'YYYY-MM': sale by the trustee (102), or vesting / exercise (non-102)
+  event_price: number; // Per share: sale price (102), or market price at vesting / exercise (non-102)
+  exercise_price?: number; // Options only
+  grant_average_price?: number; // 30-day average before the grant, listed companies in the capital track
+}
+
+export interface EquityInput {
+  personal: CalculationInput; // Regular salary of the tax year, without equity
+  events: EquityEvent[];
+}
+
+export interface EquityEventResult {
+  event: EquityEvent;
+  holding_months: number;
+  holding_period_met: boolean;
+  total_benefit: number;
+  ordinary_income: number;
+  ordinary_income_subject_to_ni: boolean;
+  capital_gain: number;
+  income_tax: number; // On ordinary income, marginal over the annual salary, including its surtax
+  national_insurance: number; // NI and health tax on ordinary income, within the month's ceiling
+  capital_gains_tax: number;
+  capital_surtax: number;
+  total_tax: number;
+  net: number;
+}
+
+export interface EquityPayslipEffect {
+  month: string; // 'YYYY-MM'
+  equity_income: number; // Ordinary income reported on the payslip
+  without_equity: CalculationResult;
+  with_equity: CalculationResult;
+  additional_income_tax: number;
+  additional_ni: number; // NI and health tax
+}
+
+export interface EquityResult {
+  tax_year: number;
+  events: EquityEventResult[];
+  payslips: EquityPayslipEffect[];
+  totals: {
+    total_benefit: number;
+    ordinary_income: number;
+    capital_gain: number;
+    total_tax: number;
+    net: number;
+  };
+}
+
+function monthIndex(value: string): number {
+  const index = parseMonth(value);
+  if (index === null) {
+    throw new Error(`Invalid month: ${value}, expected YYYY-MM`);
+  }
+  return index;
+}
+
+// Split the benefit into ordinary income and capital gain according to the track
+function splitBenefit(event: EquityEvent, holdingPeriodMet: boolean) {
+  const exercisePrice = event.instrument === 'option' ? event.exercise_price || 0 : 0;
+  const totalBenefit = Math.max(0, event.event_price - exercisePrice) * event.shares;
+
+  if (event.track !== 'capital_102' || !holdingPeriodMet) {
+    // Salary, or a capital track sale before the trustee holding period ended
+    return { totalBenefit, ordinaryIncome: totalBenefit, subjectToNi: true };
+  }
+
+  // Capital track: the value at grant above the exercise price stays ordinary income, without NI
+  const grantValue = event.grant_average_price !== undefined
+    ? Math.max(0, Math.min(event.grant_average_price, event.event_price) - exercisePrice) * event.shares
+    : 0;
+  return { totalBenefit, ordinaryIncome: grantValue, subjectToNi: false };
+}
+
+export function calculateEquity(input: EquityInput): EquityResult {
+  const taxYear = input.personal.tax_year;
+  const settings = getTaxSettings(taxYear).equity;
+  const salary = calculateSalary(input.personal);
+  const salaryAnnual = salary.taxable_income * 12;
+  const salaryNiBase = salary.gross + salary.taxable_benefits + salary.benefits_in_kind;
+
+  const events = [...input.events].sort((a, b) => monthIndex(a.event_date) - monthIndex(b.event_date));
+  for (const event of events) {
+    if (Math.floor(monthIndex(event.event_date) / 12) !== taxYear) {
+      throw new Error(`Equity event ${event.event_date} is outside tax year ${taxYear}`);
+    }
+  }
+
+  // Ordinary income first, stacked on the salary in event order
+  let ordinaryBelow = salaryAnnual;
+  const niableByMonth = new Map<string, number>();
+  const ordinaryResults = events.map((event) => {
+    const holdingMonths = monthIndex(event.event_date) - monthIndex(event.grant_date);
+    const holdingPeriodMet = holdingMonths >= settings.trustee_holding_months;
+    const split = splitBenefit(event, holdingPeriodMet);
+
+    const { tax: incomeTax } = calculateIncomeTax(split.ordinaryIncome, taxYear, ordinaryBelow);
+    ordinaryBelow += split.ordinaryIncome;
+
+    let nationalInsurance = 0;
+    if (split.subjectToNi) {
+      const niableBefore = niableByMonth.get(event.event_date) || 0;
+      const before = calculateNationalInsuranceAndHealth(salaryNiBase + niableBefore, input.personal, taxYear);
+      const after = calculateNationalInsuranceAndHealth(
+        salaryNiBase + niableBefore + split.ordinaryIncome,
+        input.personal,
+        taxYear
+      );
+      nationalInsurance = after.national_insurance + after.health_tax - before.national_insurance - before.health_tax;
+      niableByMonth.set(event.event_date, niableBefore + split.ordinaryIncome);
+    }
+
+    return { event, holdingMonths, holdingPeriodMet, split, incomeTax, nationalInsurance };
+  });
+
+  // Capital gains sit on top of all labour income and other capital income for surtax
+  let capitalBelow = input.personal.capital_income_annual || 0;
+  const eventResults: EquityEventResult[] = ordinaryResults.map((item) => {
+    const capitalGain = item.split.totalBenefit - item.split.ordinaryIncome;
+    const capitalGainsTax = capitalGain * settings.capital_gains_rate;
+    const capitalSurtax =
+      calculateSurtax(0, taxYear, ordinaryBelow, capitalBelow + capitalGain).capital_surtax -
+      calculateSurtax(0, taxYear, ordinaryBelow, capitalBelow).capital_surtax;
+    capitalBelow += capitalGain;
+
+    const totalTax = item.incomeTax + item.nationalInsurance + capitalGainsTax + capitalSurtax;
+    return {
+      event: item.event,
+      holding_months: item.holdingMonths,
+      holding_period_met: item.holdingPeriodMet,
+      total_benefit: item.split.totalBenefit,
+      ordinary_income: item.split.ordinaryIncome,
+      ordinary_income_subject_to_ni: item.split.subjectToNi,
+      capital_gain: capitalGain,
+      income_tax: item.incomeTax,
+      national_insurance: item.nationalInsurance,
+      capital_gains_tax: capitalGainsTax,
+      capital_surtax: capitalSurtax,
+      total_tax: totalTax,
+      net: item.split.totalBenefit - totalTax,
+    };
+  });
+
+  // Payslip of each event month, with the month's ordinary income as non-cash income
+  const months = [...new Set(eventResults.map((result) => result.event.event_date))];
+  const payslips: EquityPayslipEffect[] = months.map((month) => {
+    const monthEvents = eventResults.filter((result) => result.event.event_date === month);
+    const sumOrdinary = (subjectToNi: boolean) => monthEvents
+      .filter((result) => result.ordinary_income_subject_to_ni === subjectToNi)
+      .reduce((total, result) => total + result.ordinary_income, 0);
+
+    const withEquity = calculateSalary({
+      ...input.personal,
+      equity_income_current_month: sumOrdinary(true),
+      equity_ni_exempt_income_current_month: sumOrdinary(false),
+    });
+    return {
+      month,
+      equity_income: withEquity.equity_income,
+      without_equity: salary,
+      with_equity: withEquity,
+      additional_income_tax: withEquity.income_tax_after_credits - salary.income_tax_after_credits,
+      additional_ni: withEquity.national_insurance + withEquity.health_tax - salary.national_insurance - salary.health_tax,
+    };
+  });
+
+  const sum = (pick: (result: EquityEventResult) => number) =>
+    eventResults.reduce((total, result) => total + pick(result), 0);
+
+  return {
+    tax_year: taxYear,
+    events: eventResults,
+    payslips,
+    totals: {
+      total_benefit: sum((result) => result.total_benefit),
+      ordinary_income: sum((result) => result.ordinary_income),
+      capital_gain: sum((result) => result.capital_gain),
+      total_tax: sum((result) => result.total_tax),
+      net: sum((result) => result.net),
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// Hourly wage: builds the monthly gross from hours, overtime and shift premiums
+// Night and weekend hours are part of the hours worked and earn a premium on top of them
+
+import { getTaxSettings } from './tax-settings';
+
+export interface HourlyWageInput {
+  hourly_rate: number;
+  regular_hours: number;
+  overtime_125_hours: number;
+  overtime_150_hours: number;
+  night_hours?: number;
+  night_premium_rate?: number; // Set by the employment agreement, e.g. 0.25
+  weekend_hours?: number; // Hours on the weekly rest day
+}
+
+export interface HourlyWageBreakdown {
+  base_pay: number; // Regular hours, the base salary for pension and study fund
+  overtime_125_pay: number;
+  overtime_150_pay: number;
+  night_premium: number;
+  weekend_premium: number;
+  gross: number;
+  violations: string[]; // Statutory limits exceeded
+}
+
+export function calculateHourlyGross(input: HourlyWageInput, taxYear: number): HourlyWageBreakdown {
+  const settings = getTaxSettings(taxYear).working_hours;
+  const rate = input.hourly_rate;
+  const nightHours = input.night_hours || 0;
+  const weekendHours = input.weekend_hours || 0;
+
+  const basePay = input.regular_hours * rate;
+  const overtime125Pay = input.overtime_125_hours * rate * settings.overtime_first_rate;
+  const overtime150Pay = input.overtime_150_hours * rate * settings.overtime_second_rate;
+  const nightPremium = nightHours * rate * (input.night_premium_rate || 0);
+  const weekendPremium = weekendHours * rate * (settings.weekly_rest_rate - 1);
+
+  const violations: string[] = [];
+  if (input.regular_hours > settings.standard_monthly_hours) {
+    violations.push(`שעות רגילות מעל ${settings.standard_monthly_hours} בחודש צריכות להשתלם כשעות נוספות`);
+  }
+  const overtimeHours = input.overtime_125_hours + input.overtime_150_hours;
+  const maxOvertimeMonthly = settings.max_overtime_weekly * 52 / 12;
+  if (overtimeHours > maxOvertimeMonthly) {
+    violations.push(`${overtimeHours} שעות נוספות חורגות מהמכסה החוקית (${Math.round(maxOvertimeMonthly)} בחודש)`);
+  }
+  if (nightHours + weekendHours > input.regular_hours + overtimeHours) {
+    violations.push('שעות לילה וסוף שבוע עולות על סך שעות העבודה');
+  }
+
+  return {
+    base_pay: basePay,
+    overtime_125_pay: overtime125Pay,
+    overtime_150_pay: overtime150Pay,
+    night_premium: nightPremium,
+    weekend_premium: weekendPremium,
+    gross: basePay + overtime125Pay + overtime150Pay + nightPremium + weekendPremium,
+    violations,
+  };
+}
@@ -0,0 +1,142 @@
+// Parental leave: NI maternity allowance (דמי לידה) instead of salary, month by month
+// Each month is a regular payslip calculation with the allowance and the salary for the days worked
+
+import { calculateSalary, type CalculationInput, type CalculationResult } from './tax-calculator';
+import { getTaxSettings, SUPPORTED_TAX_YEARS } from './tax-settings';
+
+const DAYS_PER_MONTH = 30;
+
+export interface ParentalLeaveInput {
+  personal: CalculationInput; // Salary before the leave
+  start_month: number; // Month of the tax year the leave starts in, 1-12
+  insured_months: number; // Months insured out of the 14 before the leave
+  prior_salaries?: number[]; // Salary subject to NI in the 6 months before the leave, most recent first
+  allowance_days?: number; // Days taken by this parent when the leave is shared, defaults to the full entitlement
+  unpaid_weeks?: number; // Unpaid leave after the allowance ends
+  continue_pension: boolean; // Deposits continue on the pre-leave salary through the allowance period
+  partner_net_monthly?: number;
+}
+
+export interface ParentalLeaveMonthResult {
+  month: string; // 'YYYY-MM'
+  worked_days: number;
+  allowance_days: number;
+  unpaid_days: number;
+  salary: number;
+  allowance: number;
+  result: CalculationResult;
+  household_net: number;
+}
+
+export interface ParentalLeaveResult {
+  daily_allowance: number;
+  daily_allowance_cap: number;
+  entitled_days: number;
+  allowance_days: number;
+  regular: CalculationResult; // Payslip of a regular working month
+  regular_household_net: number;
+  months: ParentalLeaveMonthResult[];
+  totals: {
+    allowance: number;
+    net: number;
+    household_net: number;
+    net_change: number; // Compared with working through the same months
+  };
+}
+
+// The higher of the last 3 or 6 months' average, per day, up to the NI maximum income
+export function calculateDailyMaternityAllowance(priorSalaries: number[], taxYear: number) {
+  const cap = getTaxSettings(taxYear).national_insurance.max_monthly / DAYS_PER_MONTH;
+  const sum = (months: number) => priorSalaries.slice(0, months).reduce((total, salary) => total + salary, 0);
+  const average = Math.max(sum(3) / (3 * DAYS_PER_MONTH), sum(6) / (6 * DAYS_PER_MONTH));
+
+  return { daily_allowance: Math.min(average, cap), daily_allowance_cap: cap };
+}
+
+export function calculateParentalLeave(input: ParentalLeaveInput): ParentalLeaveResult {
+  const { personal } = input;
+  if (!Number.isInteger(input.start_month) || input.start_month < 1 || input.start_month > 12) {
+    throw new Error(`Invalid leave start month: ${input.start_month}, expected 1-12`);
+  }
+
+  const settings = getTaxSettings(personal.tax_year).maternity;
+  const entitledDays = input.insured_months >= settings.full_min_insured_months
+    ? settings.full_allowance_days
+    : input.insured_months >= settings.reduced_min_insured_months ? settings.reduced_allowance_days : 0;
+  const allowanceDays = Math.min(entitledDays, Math.max(0, input.allowance_days ?? entitledDays));
+  const leaveDays = allowanceDays + Math.max(0, input.unpaid_weeks || 0) * 7;
+
+  const priorSalaries = input.prior_salaries ?? Array(6).fill(personal.gross_monthly);
+  const { daily_allowance: dailyAllowance, daily_allowance_cap: dailyCap } =
+    calculateDailyMaternityAllowance(priorSalaries, personal.tax_year);
+
+  // A regular month without the bonuses and one-off pay that the leave months leave out
+  const regular = calculateSalary({
+    ...personal,
+    hourly_wage: undefined,
+    bonus_current_month: undefined,
+    one_off_payments_current_month: undefined,
+    parental_leave: undefined,
+  });
+  const partnerNet = input.partner_net_monthly || 0;
+
+  // Days of each 30-day month that fall within [from, to) of the leave
+  const daysIn = (offset: number, from: number, to: number) =>
+    Math.max(0, Math.min(to, (offset + 1) * DAYS_PER_MONTH) - Math.max(from, offset * DAYS_PER_MONTH));
+
+  const months = Array.from({ length: Math.ceil(leaveDays / DAYS_PER_MONTH) }, (_, offset) => {
+    const monthIndex = input.start_month - 1 + offset;
+    const year = personal.tax_year + Math.floor(monthIndex / 12);
+    const allowanceInMonth = daysIn(offset, 0, allowanceDays);
+    const unpaidInMonth = daysIn(offset, allowanceDays, leaveDays);
+    const workedDays = DAYS_PER_MONTH - allowanceInMonth - unpaidInMonth;
+    const salary = personal.gross_monthly * workedDays / DAYS_PER_MONTH;
+    const allowance = dailyAllowance * allowanceInMonth;
+
+    const result = calculateSalary({
+      ...personal,
+      // Months past the supported years are estimated with the leave year's settings
+      tax_year: SUPPORTED_TAX_YEARS.includes(year) ? year : personal.tax_year,
+      gross_monthly: salary,
+      hourly_wage: undefined,
+      bonus_current_month: undefined,
+      one_off_payments_current_month: undefined,
+      parental_leave: {
+        allowance,
+        pension_continuity_salary: input.continue_pension
+          ? personal.gross_monthly * (workedDays + allowanceInMonth) / DAYS_PER_MONTH
+          : undefined,
+      },
+    });
+
+    return {
+      month: `${year}-${String(monthIndex % 12 + 1).padStart(2, '0')}`,
+      worked_days: workedDays,
+      allowance_days: allowanceInMonth,
+      unpaid_days: unpaidInMonth,
+      salary,
+      allowance,
+      result,
+      household_net: result.net + partnerNet,
+    };
+  });
+
+  const sum = (pick: (month: ParentalLeaveMonthResult) => number) =>
+    months.reduce((total, month) => total + pick(month), 0);
+
+  return {
+    daily_allowance: dailyAllowance,
+    daily_allowance_cap: dailyCap,
+    entitled_days: entitledDays,
+    allowance_days: allowanceDays,
+    regular,
+    regular_household_net: regular.net + partnerNet,
+    months,
+    totals: {
+      allowance: sum((month) => month.allowance),
+      net: sum((month) => month.result.net),
+      household_net: sum((month) => month.household_net),
+      net_change: sum((month) => month.result.net) - regular.net * months.length,
+    },
+  };
+}
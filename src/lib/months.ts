@@ -0,0 +1,11 @@
+// Calendar months as entered in the inputs ('YYYY-MM')
+// Parsed to a running month index so month differences are plain subtraction
+
+// 'YYYY-MM' to year * 12 + month - 1, or null when the value is not a valid month
+export function parseMonth(value: string): number | null {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * 12 + Number(match[2]) - 1;
+}
@@ -0,0 +1,99 @@
+// One-off pay components: recuperation pay, 13th salary, holiday gifts and signing bonuses
+// Cash components are paid with the month's salary; holiday gifts are in kind and taxed only above the exemption
+
+import { getTaxSettings } from './tax-settings';
+
+export type OneOffPayType = 'recuperation' | 'thirteenth_salary' | 'holiday_gift' | 'signing_bonus';
+
+export interface OneOffPayment {
+  type: OneOffPayType;
+  month: number; // Month of the tax year it is paid in, 1-12
+  amount?: number; // Not needed for recuperation pay, which is computed from seniority
+  seniority_years?: number; // Recuperation pay only
+  job_percentage?: number; // Recuperation pay only, defaults to 100
+}
+
+export interface OneOffPayItem {
+  type: OneOffPayType;
+  month: number;
+  description: string;
+  amount: number;
+  cash: boolean; // Gifts in kind are taxed but not paid in cash
+  taxable_amount: number; // Subject to income tax and NI
+  pensionable: boolean; // Part of the pension base when contributions apply to the full salary
+}
+
+export interface RecuperationPay {
+  days: number;
+  daily_rate: number;
+  amount: number;
+}
+
+export function calculateRecuperationPay(seniorityYears: number, jobPercentage: number, taxYear: number): RecuperationPay {
+  const settings = getTaxSettings(taxYear).one_off_pay;
+  const tier = settings.recuperation_days
+    .filter((item) => seniorityYears >= item.min_seniority_years)
+    .pop();
+  const days = tier?.days || 0;
+
+  return {
+    days,
+    daily_rate: settings.recuperation_daily_rate,
+    amount: days * settings.recuperation_daily_rate * jobPercentage / 100,
+  };
+}
+
+export function resolveOneOffPayment(payment: OneOffPayment, taxYear: number): OneOffPayItem {
+  if (!Number.isInteger(payment.month) || payment.month < 1 || payment.month > 12) {
+    throw new Error(`Invalid payment month: ${payment.month}, expected 1-12`);
+  }
+  const amount = payment.amount || 0;
+
+  switch (payment.type) {
+    case 'recuperation': {
+      const recuperation = calculateRecuperationPay(payment.seniority_years || 0, payment.job_percentage ?? 100, taxYear);
+      return {
+        type: payment.type,
+        month: payment.month,
+        description: `דמי הבראה (${recuperation.days} ימים)`,
+        amount: recuperation.amount,
+        cash: true,
+        taxable_amount: recuperation.amount,
+        pensionable: false,
+      };
+    }
+    case 'holiday_gift': {
+      // The whole gift is imputed once it exceeds the threshold
+      const threshold = getTaxSettings(taxYear).one_off_pay.holiday_gift_exempt_threshold;
+      return {
+        type: payment.type,
+        month: payment.month,
+        description: amount > threshold ? 'מתנת חג (מעל תקרת הפטור)' : 'מתנת חג (פטורה)',
+        amount,
+        cash: false,
+        taxable_amount: amount > threshold ? amount : 0,
+        pensionable: false,
+      };
+    }
+    case 'thirteenth_salary':
+      return {
+        type: payment.type,
+        month: payment.month,
+        description: 'משכורת 13',
+        amount,
+        cash: true,
+        taxable_amount: amount,
+        pensionable: true,
+      };
+    case 'signing_bonus':
+      return {
+        type: payment.type,
+        month: payment.month,
+        description: 'מענק חתימה',
+        amount,
+        cash: true,
+        taxable_amount: amount,
+        pensionable: false,
+      };
+  }
+}
@@ -0,0 +1,186 @@
+// Self-employed (עצמאי) annual tax calculation
+// Parallel to calculateSalary: same brackets and credit points, different NI and pension rules
+
+import {
+  calculateCreditPoints,
+  calculateDonationCredit,
+  calculateIncomeTax,
+  calculateLifeInsuranceCredit,
+  type CalculationInput,
+} from './tax-calculator';
+import { calculateSettlementCredit } from './settlements';
+import { getTaxSettings } from './tax-settings';
+
+export interface SelfEmployedInput {
+  personal: Omit<CalculationInput, 'gross_monthly'>; // Payroll-only fields are ignored
+  revenue_annual: number;
+  expenses_annual: number; // Recognized expenses
+  pension_deposit_annual: number;
+  study_fund_deposit_annual: number;
+}
+
+export interface SelfEmployedResult {
+  tax_year: number;
+  revenue: number;
+  expenses: number;
+  profit: number;
+  pension_deduction: number; // Section 47
+  pension_credit: number; // Section 45A
+  settlement_credit: number; // Eligible settlement (section 11)
+  donation_credit: number; // Section 46
+  life_insurance_credit: number; // Section 45A
+  study_fund_deduction: number;
+  ni_deduction: number; // Deductible share of NI
+  taxable_income: number;
+  income_tax_before_credits: number; // Including surtax
+  surtax: number;
+  credit_points: {
+    total: number;
+    value_annual: number;
+  };
+  income_tax: number;
+  national_insurance: number;
+  health_tax: number;
+  net_annual: number;
+  net_monthly: number;
+
+  // Estimated advance payments (מקדמות)
+  advances: {
+    tax_monthly: number;
+    tax_rate_of_revenue: number;
+    ni_monthly: number; // National insurance and health tax
+  };
+
+  breakdown: {
+    ni_breakdown: {
+      low_part: number;
+      high_part: number;
+    };
+    health_breakdown: {
+      low_part: number;
+      high_part: number;
+    };
+  };
+}
+
+export function calculateSelfEmployedNationalInsurance(profitAnnual: number, taxYear: number) {
+  const settings = getTaxSettings(taxYear);
+  const niSettings = settings.national_insurance;
+  const rates = settings.self_employed;
+
+  // Same monthly threshold and ceiling as employees, self-employed rates
+  const cappedMonthly = Math.min(Math.max(0, profitAnnual) / 12, niSettings.max_monthly);
+  const lowPart = Math.min(cappedMonthly, niSettings.threshold_monthly);
+  const highPart = Math.max(0, cappedMonthly - niSettings.threshold_monthly);
+
+  const niBreakdown = {
+    low_part: lowPart * rates.ni_rate_low * 12,
+    high_part: highPart * rates.ni_rate_high * 12,
+  };
+  const healthBreakdown = {
+    low_part: lowPart * rates.health_rate_low * 12,
+    high_part: highPart * rates.health_rate_high * 12,
+  };
+
+  return {
+    national_insurance: niBreakdown.low_part + niBreakdown.high_part,
+    health_tax: healthBreakdown.low_part + healthBreakdown.high_part,
+    breakdown: {
+      ni_breakdown: niBreakdown,
+      health_breakdown: healthBreakdown,
+    },
+  };
+}
+
+export function calculateSelfEmployed(input: SelfEmployedInput): SelfEmployedResult {
+  const taxYear = input.personal.tax_year;
+  const settings = getTaxSettings(taxYear);
+  const rates = settings.self_employed;
+
+  const profit = Math.max(0, input.revenue_annual - input.expenses_annual);
+
+  // Pension: deduction first (section 47), the remainder earns the credit (section 45A)
+  const qualifyingIncome = Math.min(profit, settings.pension_tax.deduction_income_ceiling_monthly * 12);
+  const pensionDeduction = Math.min(input.pension_deposit_annual, qualifyingIncome * rates.pension_deduction_rate);
+  const pensionCreditEligible = Math.min(
+    input.pension_deposit_annual - pensionDeduction,
+    qualifyingIncome * rates.pension_credit_rate
+  );
+  const pensionCredit = pensionCreditEligible * settings.pension_tax.credit_rate;
+
+  // Study fund deduction up to a share of income below the ceiling
+  const studyFundDeduction = Math.min(
+    input.study_fund_deposit_annual,
+    Math.min(profit, rates.study_fund_income_ceiling_annual) * rates.study_fund_deduction_rate
+  );
+
+  // NI and health, with the partial NI deduction
+  const ni = calculateSelfEmployedNationalInsurance(profit, taxYear);
+  const niDeduction = ni.national_insurance * rates.ni_deduction_share;
+
+  const taxableIncome = Math.max(0, profit - pensionDeduction - studyFundDeduction - niDeduction);
+  const { tax: taxBeforeCredits, surtax } = calculateIncomeTax(taxableIncome, taxYear);
+
+  // Annual average of the points, not those of a single payslip month
+  const creditPoints = calculateCreditPoints({
+    ...input.personal,
+    gross_monthly: 0,
+    tax_calculation_mode: 'monthly',
+    cumulative: undefined,
+  }) + input.personal.manual_credit_points;
+  const creditValue = creditPoints * settings.credit_points.value_monthly * 12;
+  const settlementCredit = calculateSettlementCredit(
+    input.personal.residency === 'resident' ? input.personal.settlement : undefined,
+    taxableIncome,
+    taxYear
+  )?.credit_annual || 0;
+  const donationCredit = calculateDonationCredit((input.personal.donations_monthly || 0) * 12, taxableIncome, taxYear);
+  const lifeInsuranceCredit = calculateLifeInsuranceCredit(
+    (input.personal.life_insurance_premiums_monthly || 0) * 12,
+    profit,
+    taxYear
+  );
+  const incomeTax = Math.max(
+    0,
+    taxBeforeCredits - creditValue - pensionCredit - settlementCredit - donationCredit - lifeInsuranceCredit
+  );
+
+  const netAnnual = profit -
+    incomeTax -
+    ni.national_insurance -
+    ni.health_tax -
+    input.pension_deposit_annual -
+    input.study_fund_deposit_annual;
+
+  return {
+    tax_year: taxYear,
+    revenue: input.revenue_annual,
+    expenses: input.expenses_annual,
+    profit,
+    pension_deduction: pensionDeduction,
+    pension_credit: pensionCredit,
+    settlement_credit: settlementCredit,
+    donation_credit: donationCredit,
+    life_insurance_credit: lifeInsuranceCredit,
+    study_fund_deduction: studyFundDeduction,
+    ni_deduction: niDeduction,
+    taxable_income: taxableIncome,
+    income_tax_before_credits: taxBeforeCredits,
+    surtax,
+    credit_points: {
+      total: creditPoints,
+      value_annual: creditValue,
+    },
+    income_tax: incomeTax,
+    national_insurance: ni.national_insurance,
+    health_tax: ni.health_tax,
+    net_annual: netAnnual,
+    net_monthly: netAnnual / 12,
+    advances: {
+      tax_monthly: incomeTax / 12,
+      tax_rate_of_revenue: input.revenue_annual > 0 ? incomeTax / input.revenue_annual : 0,
+      ni_monthly: (ni.national_insurance + ni.health_tax) / 12,
+    },
+    breakdown: ni.breakdown,
+  };
+}
@@ -0,0 +1,111 @@
+// Eligible settlements (יישובים מזכים) tax credit, section 11
+// Residents of listed settlements get a credit of a percentage of their income up to an annual ceiling
+
+import { getTaxSettings, SUPPORTED_TAX_YEARS } from './tax-settings';
+
+export type SettlementRegion = 'north' | 'south' | 'negev' | 'arava' | 'golan';
+
+export interface EligibleSettlement {
+  name: string;
+  region: SettlementRegion;
+  rates: Record<number, number>; // Credit rate per tax year, missing years are not eligible
+}
+
+export interface SettlementCredit {
+  settlement: string;
+  rate: number;
+  eligible_income_annual: number;
+  credit_annual: number;
+}
+
+export const SETTLEMENT_REGION_LABELS: Record<SettlementRegion, string> = {
+  north: 'צפון',
+  golan: 'גולן',
+  south: 'עוטף עזה',
+  negev: 'נגב',
+  arava: 'ערבה ואילת',
+};
+
+// Rate from the first supported year, with changes taking effect from the given year onwards
+function ratesFrom(rate: number, changes: Record<number, number> = {}): Record<number, number> {
+  const rates: Record<number, number> = {};
+  let current = rate;
+  for (const year of SUPPORTED_TAX_YEARS) {
+    current = changes[year] ?? current;
+    if (current > 0) {
+      rates[year] = current;
+    }
+  }
+  return rates;
+}
+
+export const ELIGIBLE_SETTLEMENTS: EligibleSettlement[] = [
+  // North, frontline settlements raised from 2024
+  { name: 'קריית שמונה', region: 'north', rates: ratesFrom(0.18, { 2024: 0.20 }) },
+  { name: 'מטולה', region: 'north', rates: ratesFrom(0.20) },
+  { name: 'שלומי', region: 'north', rates: ratesFrom(0.18, { 2024: 0.20 }) },
+  { name: 'מעלות-תרשיחא', region: 'north', rates: ratesFrom(0.12, { 2024: 0.16 }) },
+  { name: 'חצור הגלילית', region: 'north', rates: ratesFrom(0.13) },
+  { name: 'צפת', region: 'north', rates: ratesFrom(0.10, { 2024: 0.12 }) },
+  { name: 'ראש פינה', region: 'north', rates: ratesFrom(0.12) },
+  { name: 'יסוד המעלה', region: 'north', rates: ratesFrom(0.14) },
+  { name: 'מגדל העמק', region: 'north', rates: ratesFrom(0.07) },
+  { name: 'נהריה', region: 'north', rates: ratesFrom(0, { 2024: 0.07 }) },
+  { name: 'כרמיאל', region: 'north', rates: ratesFrom(0, { 2024: 0.07 }) },
+  { name: 'בית שאן', region: 'north', rates: ratesFrom(0.10) },
+  { name: 'מרום הגליל (מועצה אזורית)', region: 'north', rates: ratesFrom(0.12, { 2024: 0.20 }) },
+  { name: 'מבואות החרמון (מועצה אזורית)', region: 'north', rates: ratesFrom(0.12, { 2024: 0.20 }) },
+
+  // Golan
+  { name: 'קצרין', region: 'golan', rates: ratesFrom(0.12) },
+  { name: 'גולן (מועצה אזורית)', region: 'golan', rates: ratesFrom(0.12) },
+
+  // Gaza envelope
+  { name: 'שדרות', region: 'south', rates: ratesFrom(0.20) },
+  { name: 'נתיבות', region: 'south', rates: ratesFrom(0.14, { 2024: 0.20 }) },
+  { name: 'אופקים', region: 'south', rates: ratesFrom(0.16, { 2024: 0.20 }) },
+  { name: 'אשכול (מועצה אזורית)', region: 'south', rates: ratesFrom(0.20) },
+  { name: 'שער הנגב (מועצה אזורית)', region: 'south', rates: ratesFrom(0.20) },
+  { name: 'שדות נגב (מועצה אזורית)', region: 'south', rates: ratesFrom(0.16, { 2024: 0.20 }) },
+
+  // Negev
+  { name: 'ירוחם', region: 'negev', rates: ratesFrom(0.18) },
+  { name: 'מצפה רמון', region: 'negev', rates: ratesFrom(0.18) },
+  { name: 'דימונה', region: 'negev', rates: ratesFrom(0.14) },
+  { name: 'ערד', region: 'negev', rates: ratesFrom(0.12) },
+  { name: 'רמת נגב (מועצה אזורית)', region: 'negev', rates: ratesFrom(0.18) },
+
+  // Arava and Eilat
+  { name: 'אילת', region: 'arava', rates: ratesFrom(0.10) },
+  { name: 'ערבה תיכונה (מועצה אזורית)', region: 'arava', rates: ratesFrom(0.18) },
+  { name: 'חבל אילות (מועצה אזורית)', region: 'arava', rates: ratesFrom(0.18) },
+];
+
+export function findSettlement(name: string): EligibleSettlement | undefined {
+  return ELIGIBLE_SETTLEMENTS.find((settlement) => settlement.name === name);
+}
+
+export function getSettlementCreditRate(name: string, taxYear: number): number {
+  return findSettlement(name)?.rates[taxYear] || 0;
+}
+
+export function calculateSettlementCredit(
+  settlementName: string | undefined,
+  incomeAnnual: number,
+  taxYear: number
+): SettlementCredit | undefined {
+  if (!settlementName) {
+    return undefined;
+  }
+
+  const rate = getSettlementCreditRate(settlementName, taxYear);
+  const ceiling = getTaxSettings(taxYear).personal_credits.settlement_credit_income_ceiling_annual;
+  const eligibleIncome = rate > 0 ? Math.min(Math.max(0, incomeAnnual), ceiling) : 0;
+
+  return {
+    settlement: settlementName,
+    rate,
+    eligible_income_annual: eligibleIncome,
+    credit_annual: eligibleIncome * rate,
+  };
+}
@@ -0,0 +1,112 @@
+// Severance pay (פיצויים): tax exemption and spreading of the taxable part
+// Spread portions are taxed on top of each year's other income, with the same brackets as salary
+
+import { calculateIncomeTax } from './tax-calculator';
+import { getTaxSettings, SUPPORTED_TAX_YEARS } from './tax-settings';
+
+export type SeveranceSpreadDirection = 'none' | 'forward' | 'back';
+
+export interface SeveranceInput {
+  tax_year: number; // Year of termination
+  years_of_service: number;
+  last_monthly_salary: number;
+  severance_amount: number;
+  annual_income_termination_year: number; // Other taxable income in the year of termination
+  annual_income_forward?: number; // Expected taxable income in each later year, defaults to the termination year
+  annual_income_back?: number[]; // Taxable income of the previous years, most recent first
+}
+
+export interface SeveranceSpreadYear {
+  year: number;
+  other_income: number;
+  taxable_portion: number;
+  tax: number;
+}
+
+export interface SeveranceSpreadOption {
+  direction: SeveranceSpreadDirection;
+  years: number;
+  breakdown: SeveranceSpreadYear[];
+  total_tax: number;
+  net_severance: number;
+}
+
+export interface SeveranceResult {
+  tax_year: number;
+  exempt_ceiling: number; // For the whole period of service
+  exempt_amount: number;
+  taxable_amount: number;
+  max_spread_years: number;
+  options: SeveranceSpreadOption[]; // Without spreading first
+  best_option: SeveranceSpreadOption;
+}
+
+// Years outside the supported range use the nearest year's brackets as an estimate
+function bracketYear(year: number): number {
+  return Math.min(Math.max(year, Math.min(...SUPPORTED_TAX_YEARS)), Math.max(...SUPPORTED_TAX_YEARS));
+}
+
+export function calculateSeverance(input: SeveranceInput): SeveranceResult {
+  const settings = getTaxSettings(input.tax_year).severance;
+  if (input.years_of_service < 0 || input.severance_amount < 0) {
+    throw new Error('Years of service and severance amount must not be negative');
+  }
+
+  // Section 9(7a): one monthly salary per year of service, up to the ceiling
+  const exemptCeiling = Math.min(input.last_monthly_salary, settings.exempt_ceiling_per_year) * input.years_of_service;
+  const exemptAmount = Math.min(input.severance_amount, exemptCeiling);
+  const taxableAmount = input.severance_amount - exemptAmount;
+
+  // Section 8(c): one spread year per full block of service years
+  const maxSpreadYears = Math.min(
+    settings.max_spread_years,
+    Math.floor(input.years_of_service / settings.service_years_per_spread_year)
+  );
+
+  const otherIncome = (direction: SeveranceSpreadDirection, offset: number): number => {
+    if (direction === 'back') {
+      return input.annual_income_back?.[offset] ?? input.annual_income_termination_year;
+    }
+    if (offset === 0) {
+      return input.annual_income_termination_year;
+    }
+    return input.annual_income_forward ?? input.annual_income_termination_year;
+  };
+
+  const spread = (direction: SeveranceSpreadDirection, years: number): SeveranceSpreadOption => {
+    const portion = taxableAmount / years;
+    const breakdown = Array.from({ length: years }, (_, offset) => {
+      const year = direction === 'back' ? input.tax_year - 1 - offset : input.tax_year + offset;
+      const income = otherIncome(direction, offset);
+      const { tax } = calculateIncomeTax(portion, bracketYear(year), income);
+      return { year, other_income: income, taxable_portion: portion, tax };
+    });
+    const totalTax = breakdown.reduce((total, item) => total + item.tax, 0);
+
+    return {
+      direction,
+      years,
+      breakdown,
+      total_tax: totalTax,
+      net_severance: input.severance_amount - totalTax,
+    };
+  };
+
+  const options = [spread('none', 1)];
+  for (let years = 2; years <= maxSpreadYears; years++) {
+    options.push(spread('forward', years));
+  }
+  for (let years = 1; years <= maxSpreadYears; years++) {
+    options.push(spread('back', years));
+  }
+
+  return {
+    tax_year: input.tax_year,
+    exempt_ceiling: exemptCeiling,
+    exempt_amount: exemptAmount,
+    taxable_amount: taxableAmount,
+    max_spread_years: maxSpreadYears,
+    options,
+    best_option: options.reduce((best, option) => option.total_tax < best.total_tax ? option : best),
+  };
+}
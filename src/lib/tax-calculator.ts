@@ -1,116 +1,168 @@
-// Israeli Tax Calculator for 2025
+// Israeli Tax Calculator
 // All calculations based on official tax rates and regulations
 
-export interface TaxBracket {
-  min: number;
-  max: number | null;
-  rate: number;
-}
-
-export interface CreditPointSettings {
-  value_monthly: number;
-  resident_male: number;
-  resident_female: number;
-  child_0_5: number;
-  child_6_12: number;
-  child_13_17: number;
-  child_18_plus: number;
-  single_parent: number;
-  new_immigrant: number;
-  returning_resident: number;
-}
-
-export interface NISettings {
-  threshold_monthly: number;
-  max_monthly: number;
-  rate_low_employee: number;
-  rate_high_employee: number;
-  rate_low_health: number;
-  rate_high_health: number;
-}
-
-// Standard Israeli contribution rates for 2025
-export const STANDARD_CONTRIBUTIONS_2025 = {
-  pension: {
-    employee_rate: 0.07, // 7%
-    employer_rate: 0.0833, // 8.33%
-    base_salary_only: false,
-  } as PensionContributions,
-  
-  study_fund: {
-    employee_rate: 0.025, // 2.5%
-    employer_rate: 0.075, // 7.5%
-    base_salary_only: true, // Usually applied to base salary only
-  } as StudyFundContributions,
-};
-
-// 2025 Tax Settings
-export const TAX_SETTINGS_2025 = {
-  tax_brackets_annual: [
-    { min: 0, max: 84120, rate: 0.10 },
-    { min: 84120, max: 120720, rate: 0.14 },
-    { min: 120720, max: 193800, rate: 0.20 },
-    { min: 193800, max: 269280, rate: 0.31 },
-    { min: 269280, max: 560280, rate: 0.35 },
-    { min: 560280, max: 721560, rate: 0.47 },
-    { min: 721560, max: null, rate: 0.50 }, // 47% + 3% additional tax
-  ] as TaxBracket[],
+import {
+  getTaxSettings,
+  type PensionContributions,
+  type StudyFundContributions,
+  type TaxBracket,
+  type VehicleType,
+} from './tax-settings';
 
-  credit_points: {
-    value_monthly: 242,
-    resident_male: 2.25,
-    resident_female: 2.75,
-    child_0_5: 1.5,
-    child_6_12: 1.0,
-    child_13_17: 1.0,
-    child_18_plus: 0.5,
-    single_parent: 1.5,
-    new_immigrant: 1.0,
-    returning_resident: 1.0,
-  } as CreditPointSettings,
-
-  national_insurance: {
-    threshold_monthly: 7522, // 60% of average wage
-    max_monthly: 50695,
-    rate_low_employee: 0.0104, // BI part
-    rate_high_employee: 0.07, // BI part above threshold
-    rate_low_health: 0.0323, // Health part
-    rate_high_health: 0.0517, // Health part above threshold
-  } as NISettings,
-};
+export type {
+  BenefitInKindSettings,
+  CreditPointSettings,
+  EmployerContributionExemptions,
+  EquitySettings,
+  ForeignExpertSettings,
+  NIRates,
+  NISettings,
+  OneOffPaySettings,
+  PensionContributions,
+  PersonalCreditSettings,
+  ReserveDutySettings,
+  RetirementAgeSettings,
+  SeveranceSettings,
+  StudyFundContributions,
+  SurtaxSettings,
+  TaxBracket,
+  TaxYearSettings,
+  VehicleType,
+} from './tax-settings';
+import { calculateCreditPointItems, calculateReserveDutyPoints } from './credit-points';
+import { calculateHourlyGross, type HourlyWageBreakdown, type HourlyWageInput } from './hourly-wage';
+import { parseMonth } from './months';
+import { resolveOneOffPayment, type OneOffPayItem, type OneOffPayment } from './one-off-pay';
+import { calculateSettlementCredit, type SettlementCredit } from './settlements';
+
+export { calculateCreditPointItems, calculateReserveDutyPoints } from './credit-points';
+export { calculateHourlyGross, type HourlyWageBreakdown, type HourlyWageInput } from './hourly-wage';
+export {
+  calculateRecuperationPay,
+  resolveOneOffPayment,
+  type OneOffPayItem,
+  type OneOffPayment,
+  type OneOffPayType,
+  type RecuperationPay,
+} from './one-off-pay';
+export { ELIGIBLE_SETTLEMENTS, calculateSettlementCredit, type EligibleSettlement, type SettlementCredit } from './settlements';
+export { DEFAULT_TAX_YEAR, SUPPORTED_TAX_YEARS, getTaxSettings } from './tax-settings';
 
 export interface Child {
-  age: number;
+  age: number; // Age during the tax year, 0 in the year of birth
+  disabled?: boolean;
+}
+
+export interface AcademicDegree {
+  type: 'bachelor' | 'master' | 'doctorate';
+  completion_year: number;
+}
+
+export interface MilitaryService {
+  type: 'military' | 'national_service';
+  discharge_date: string; // 'YYYY-MM'
+  service_months: number;
+}
+
+export interface CreditPointItem {
+  points: number;
+  description: string;
+}
+
+// Non-cash benefits (שווי הטבות): taxed and subject to NI, but not paid in cash
+export interface CarBenefit {
+  type: 'car';
+  list_price: number;
+  vehicle_type: VehicleType;
+}
+
+export interface FixedValueBenefit {
+  type: 'phone' | 'meals' | 'other';
+  monthly_value?: number; // Phone defaults to the official fixed value
+  description?: string;
 }
 
-export interface PensionContributions {
-  employee_rate: number; // e.g., 0.07 for 7%
-  employer_rate: number; // e.g., 0.0833 for 8.33%
-  base_salary_only: boolean; // whether to apply only to base salary or total
+export type BenefitInKind = CarBenefit | FixedValueBenefit;
+
+// Withholding rules for an employer that is not the only source of salary income
+export interface EmployerWithholding {
+  flat_rate?: number; // Without a coordination certificate: flat rate and no credit points
+  other_income_monthly?: number; // With a certificate: income from other employers fills the lower brackets
+  credit_points_share?: number; // Share of credit points applied by this employer (defaults to 1)
 }
 
-export interface StudyFundContributions {
-  employee_rate: number; // e.g., 0.025 for 2.5%
-  employer_rate: number; // e.g., 0.075 for 7.5%
-  base_salary_only: boolean;
+// Residency for tax and NI purposes. Only residents get the resident credit points and pay health tax.
+// foreign_worker: non-resident with a work permit, gets the foreign worker credit points
+// foreign_expert: non-resident expert, deducts housing and living expenses for a limited period
+export type ResidencyProfile = 'resident' | 'non_resident' | 'foreign_worker' | 'foreign_expert';
+
+export interface ForeignExpertInput {
+  arrival_date: string; // 'YYYY-MM'
+  expenses_monthly: number; // Housing and living expenses in Israel
+}
+
+// NI category by age: minors and workers past retirement age have their own rates
+export type NICategory = 'standard' | 'youth' | 'retirement';
+
+// Who NI and health tax are calculated for
+export type NIProfile = Pick<CalculationInput, 'residency' | 'age' | 'gender'>;
+
+// Parental leave (חופשת לידה) in this month: NI pays the maternity allowance instead of the employer,
+// and gross_monthly is only the salary for the days worked
+export interface ParentalLeaveMonth {
+  allowance: number; // Maternity allowance for this month, before tax and NI
+  pension_continuity_salary?: number; // Salary the pension and study fund deposits continue on during the leave
+}
+
+// Reserve duty (מילואים): the employer keeps paying salary and is reimbursed by NI
+export interface ReserveDutyInput {
+  days_current_month?: number; // Reserve days in this month's payslip
+  days_in_year?: number; // Total reserve days in the tax year, for reservist credit points
+  grants_annual?: number; // State grants to reservists, tax exempt and paid outside the payslip
+}
+
+export type TaxCalculationMode = 'monthly' | 'cumulative';
+
+// How months_worked_in_year affects monthly mode: what the employer withholds,
+// or the share of the year-end liability that falls on each month worked
+export type PartialYearView = 'monthly_withholding' | 'year_end_liability';
+
+// Year-to-date figures from earlier payslips of the same tax year (cumulative mode)
+export interface CumulativeTaxInput {
+  month: number; // current month of the tax year, 1-12
+  ytd_taxable_gross: number; // taxable income paid in previous months
+  ytd_tax_withheld: number; // income tax withheld in previous months
+  ytd_credit_points_used: number; // credit points applied in previous months
+  ytd_other_credits?: number; // other tax credits (e.g. pension) applied in previous months
 }
 
 export interface CalculationInput {
+  tax_year: number;
   gross_monthly: number;
-  is_resident: boolean;
+  hourly_wage?: HourlyWageInput; // Builds gross_monthly from hours when given
+  base_salary_monthly?: number; // Base for contributions with base_salary_only, defaults to gross_monthly
+  residency: ResidencyProfile;
+  foreign_expert?: ForeignExpertInput;
   gender: 'male' | 'female';
   age: number;
   children: Child[];
   single_parent: boolean;
   new_immigrant: boolean;
+  aliyah_date?: string; // 'YYYY-MM', enables the graduated new immigrant schedule
   returning_resident: boolean;
+  pays_alimony?: boolean;
+  academic_degrees?: AcademicDegree[];
+  military_service?: MilitaryService;
+  settlement?: string; // Eligible settlement of residence (יישוב מזכה), by name
   manual_credit_points: number;
   months_worked_in_year: number;
   bonus_current_month?: number;
+  one_off_payments_current_month?: OneOffPayment[]; // Recuperation pay, 13th salary, gifts etc. paid this month
   
   // Pension contributions
   use_standard_pension: boolean;
   custom_pension?: PensionContributions;
+  pension_independent_deposit_monthly?: number; // Private deposits outside the payslip (section 47)
   
   // Study fund contributions
   use_study_fund: boolean;
@@ -118,19 +170,102 @@ export interface CalculationInput {
   
   // Manual deductions
   manual_deductions_monthly?: number;
+
+  reserve_duty?: ReserveDutyInput;
+  parental_leave?: ParentalLeaveMonth;
+
+  // Equity income reported on this month's payslip, taxed but not paid in cash
+  equity_income_current_month?: number; // Taxed as salary, subject to NI
+  equity_ni_exempt_income_current_month?: number; // Section 102 capital track ordinary portion, no NI
+
+  // Capital income (e.g. RSU capital track, capital gains), counted toward the surtax threshold
+  capital_income_annual?: number;
+
+  // Personal tax credits, paid privately outside the payslip
+  donations_monthly?: number; // Approved charities (section 46)
+  life_insurance_premiums_monthly?: number; // Private life and disability insurance (section 45A)
+
+  // Benefits in kind
+  benefits_in_kind?: BenefitInKind[];
+
+  // Secondary employer withholding (monthly mode only)
+  employer_withholding?: EmployerWithholding;
+
+  // Tax withholding mode (defaults to 'monthly')
+  tax_calculation_mode?: TaxCalculationMode;
+  cumulative?: CumulativeTaxInput;
+  partial_year_view?: PartialYearView; // Defaults to 'monthly_withholding'
+}
+
+export interface TaxBracketBreakdown {
+  bracket: TaxBracket;
+  amount: number;
+  effective_rate: number;
+  taxable_amount: number;
+}
+
+// Annual amounts
+export interface SurtaxBreakdown {
+  threshold_annual: number;
+  income_above_threshold: number; // Of the income taxed in this calculation
+  surtax: number;
+  capital_income_above_threshold: number;
+  capital_surtax: number; // Including the additional capital rate, settled annually outside payroll
+}
+
+export interface ReserveDutyEffect {
+  days_current_month: number;
+  daily_compensation: number;
+  employer_reimbursement: number; // Paid by NI to the employer for this month's reserve days
+  credit_points: number;
+  credit_value_monthly: number;
+  grants_monthly: number;
+  net_effect_monthly: number; // Tax saved by the credit points plus grants
+}
+
+export interface PensionTaxBenefits {
+  credit_eligible_deposit: number; // Employee deposits recognized for the section 45A credit
+  credit: number;
+  deductible_deposit: number; // Independent deposits recognized for the section 47 deduction
+  deduction: number;
+}
+
+export interface TaxableEmployerBenefits {
+  study_fund_employer: number; // Employer study fund deposits above the exempt ceiling
+  pension_employer: number; // Employer pension deposits above the exempt limit
+  total: number;
+}
+
+export interface BenefitInKindValue {
+  type: BenefitInKind['type'];
+  description: string;
+  monthly_value: number;
 }
 
 export interface CalculationResult {
+  tax_year: number;
   gross: number;
-  taxable_income: number; // After pension contributions
-  income_tax_before_credits: number;
+  taxable_income: number; // Including taxable benefits, after section 47 pension deduction
+  foreign_expert_deduction: number;
+  taxable_benefits: number; // Imputed, non-cash income (זקיפת הטבה)
+  benefits_in_kind: number; // Non-cash benefits value (שווי הטבות)
+  equity_income: number; // Non-cash equity income taxed this month
+  one_off_payments: number; // Cash one-off components included in gross
+  maternity_allowance: number; // Paid by NI, not included in gross or employer cost
+  income_tax_before_credits: number; // Including surtax
+  surtax: number;
   credit_points: {
     auto: number;
+    items: CreditPointItem[];
     manual: number;
     total: number;
     value_monthly: number;
     total_value: number;
   };
+  pension_tax_credit: number;
+  settlement_tax_credit: number;
+  donation_credit: number;
+  life_insurance_credit: number;
   income_tax_after_credits: number;
   national_insurance: number;
   health_tax: number;
@@ -142,14 +277,13 @@ export interface CalculationResult {
   
   total_deductions: number;
   net: number;
+  employer_national_insurance: number;
   employer_cost: number;
   
   breakdown: {
-    tax_by_bracket: Array<{
-      bracket: TaxBracket;
-      amount: number;
-      effective_rate: number;
-    }>;
+    tax_by_bracket: TaxBracketBreakdown[];
+    surtax: SurtaxBreakdown;
+    ni_category: NICategory;
     ni_breakdown: {
       low_part: number;
       high_part: number;
@@ -159,25 +293,88 @@ export interface CalculationResult {
       high_part: number;
     };
     contributions: {
+      pension_base: number;
       pension_employee: number;
       pension_employer: number;
+      study_fund_base: number;
       study_fund_employee: number;
       study_fund_employer: number;
     };
+    taxable_benefits: TaxableEmployerBenefits;
+    benefits_in_kind: BenefitInKindValue[];
+    employer_cost: {
+      gross: number;
+      ni_low_part: number;
+      ni_high_part: number;
+      pension_employer: number;
+      study_fund_employer: number;
+      total: number;
+    };
+    pension_tax_benefits: PensionTaxBenefits;
+    settlement_credit?: SettlementCredit;
+    reserve_duty?: ReserveDutyEffect;
+    hourly_wage?: HourlyWageBreakdown;
+    one_off_payments: OneOffPayItem[];
+    cumulative?: {
+      month: number;
+      ytd_taxable_income: number; // Including the current month
+      ytd_tax_liability: number; // After credit points, including the current month
+      ytd_tax_withheld: number; // Including the current month
+    };
+    partial_year?: {
+      months_worked: number;
+      annual_taxable_income: number;
+      credit_point_months: number;
+      annual_tax_liability: number;
+    };
   };
 }
 
-export function calculateIncomeTax(grossAnnual: number): { tax: number; breakdown: any[] } {
-  let remainingIncome = grossAnnual;
-  let totalTax = 0;
-  const breakdown = [];
+// Surtax on the slice of income from otherIncomeAnnual to otherIncomeAnnual + incomeAnnual.
+// Capital income sits on top of all other income.
+export function calculateSurtax(
+  incomeAnnual: number,
+  taxYear: number,
+  otherIncomeAnnual: number = 0,
+  capitalIncomeAnnual: number = 0
+): SurtaxBreakdown {
+  const settings = getTaxSettings(taxYear).surtax;
+  const incomeStart = Math.max(0, otherIncomeAnnual);
+  const incomeEnd = incomeStart + Math.max(0, incomeAnnual);
+  const capitalIncome = Math.max(0, capitalIncomeAnnual);
+
+  const incomeAboveThreshold = Math.max(0, incomeEnd - Math.max(incomeStart, settings.threshold_annual));
+  const capitalAboveThreshold = Math.min(
+    capitalIncome,
+    Math.max(0, incomeEnd + capitalIncome - settings.threshold_annual)
+  );
 
-  for (const bracket of TAX_SETTINGS_2025.tax_brackets_annual) {
-    if (remainingIncome <= 0) break;
+  return {
+    threshold_annual: settings.threshold_annual,
+    income_above_threshold: incomeAboveThreshold,
+    surtax: incomeAboveThreshold * settings.rate,
+    capital_income_above_threshold: capitalAboveThreshold,
+    capital_surtax: capitalAboveThreshold * (settings.rate + settings.capital_additional_rate),
+  };
+}
 
-    const bracketMin = bracket.min;
-    const bracketMax = bracket.max || Infinity;
-    const taxableInBracket = Math.min(remainingIncome, bracketMax - bracketMin);
+// Taxes grossAnnual as sitting on top of otherIncomeAnnual, which has already filled the lower brackets.
+// The returned tax includes surtax, which is also returned separately.
+export function calculateIncomeTax(
+  grossAnnual: number,
+  taxYear: number,
+  otherIncomeAnnual: number = 0
+): { tax: number; breakdown: TaxBracketBreakdown[]; surtax: number } {
+  const settings = getTaxSettings(taxYear);
+  const incomeStart = Math.max(0, otherIncomeAnnual);
+  const incomeEnd = incomeStart + grossAnnual;
+  let totalTax = 0;
+  const breakdown: TaxBracketBreakdown[] = [];
+
+  for (const bracket of settings.tax_brackets_annual) {
+    const bracketMin = Math.max(bracket.min, incomeStart);
+    const bracketMax = Math.min(bracket.max || Infinity, incomeEnd);
+    const taxableInBracket = bracketMax - bracketMin;
 
     if (taxableInBracket > 0) {
       const taxInBracket = taxableInBracket * bracket.rate;
@@ -189,52 +386,52 @@ export function calculateIncomeTax(grossAnnual: number): { tax: number; breakdow
         effective_rate: bracket.rate,
         taxable_amount: taxableInBracket,
       });
-
-      remainingIncome -= taxableInBracket;
     }
   }
 
-  return { tax: totalTax, breakdown };
+  const { surtax } = calculateSurtax(grossAnnual, taxYear, otherIncomeAnnual);
+
+  return { tax: totalTax + surtax, breakdown, surtax };
 }
 
 export function calculateCreditPoints(input: CalculationInput): number {
-  const settings = TAX_SETTINGS_2025.credit_points;
-  let points = 0;
+  return calculateCreditPointItems(input).reduce((total, item) => total + item.points, 0);
+}
 
-  // Base resident points
-  if (input.is_resident) {
-    points += input.gender === 'male' ? settings.resident_male : settings.resident_female;
+// Retirement age for the tax year; women's depends on the birth year, taken as the tax year minus the age
+export function getRetirementAge(gender: CalculationInput['gender'], age: number, taxYear: number): number {
+  const settings = getTaxSettings(taxYear).national_insurance.retirement_age;
+  if (gender === 'male') {
+    return settings.male;
   }
+  const birthYear = taxYear - age;
+  return settings.female.filter((row) => birthYear >= row.from_birth_year).pop()?.age ?? settings.male;
+}
 
-  // Children points
-  for (const child of input.children) {
-    if (child.age <= 5) {
-      points += settings.child_0_5;
-    } else if (child.age <= 12) {
-      points += settings.child_6_12;
-    } else if (child.age <= 17) {
-      points += settings.child_13_17;
-    } else {
-      points += settings.child_18_plus;
-    }
+export function getNICategory(person: NIProfile, taxYear: number): NICategory {
+  if (person.age <= getTaxSettings(taxYear).national_insurance.youth_max_age) {
+    return 'youth';
   }
+  return person.age >= getRetirementAge(person.gender, person.age, taxYear) ? 'retirement' : 'standard';
+}
 
-  // Additional points
-  if (input.single_parent) {
-    points += settings.single_parent;
-  }
-  if (input.new_immigrant) {
-    points += settings.new_immigrant;
-  }
-  if (input.returning_resident) {
-    points += settings.returning_resident;
-  }
+// Rates by residency and age; non-resident rates apply at any age
+function niRatesFor(person: NIProfile, taxYear: number) {
+  const settings = getTaxSettings(taxYear).national_insurance;
+  const category = getNICategory(person, taxYear);
+  const rates = person.residency !== 'resident'
+    ? settings.non_resident
+    : category === 'standard' ? settings : settings[category];
 
-  return points;
+  return {
+    settings: { ...settings, ...rates },
+    category,
+    health_tax: person.residency === 'resident' && category !== 'youth',
+  };
 }
 
-export function calculateNationalInsuranceAndHealth(grossMonthly: number, isResident: boolean) {
-  const settings = TAX_SETTINGS_2025.national_insurance;
+export function calculateNationalInsuranceAndHealth(grossMonthly: number, person: NIProfile, taxYear: number) {
+  const { settings, category, health_tax: paysHealthTax } = niRatesFor(person, taxYear);
   const cappedGross = Math.min(grossMonthly, settings.max_monthly);
 
   let nationalInsurance = 0;
@@ -244,7 +441,7 @@ export function calculateNationalInsuranceAndHealth(grossMonthly: number, isResi
   const lowPart = Math.min(cappedGross, settings.threshold_monthly);
   if (lowPart > 0) {
     nationalInsurance += lowPart * settings.rate_low_employee;
-    if (isResident) {
+    if (paysHealthTax) {
       healthTax += lowPart * settings.rate_low_health;
     }
   }
@@ -253,7 +450,7 @@ export function calculateNationalInsuranceAndHealth(grossMonthly: number, isResi
   const highPart = Math.max(0, cappedGross - settings.threshold_monthly);
   if (highPart > 0) {
     nationalInsurance += highPart * settings.rate_high_employee;
-    if (isResident) {
+    if (paysHealthTax) {
       healthTax += highPart * settings.rate_high_health;
     }
   }
@@ -261,29 +458,64 @@ export function calculateNationalInsuranceAndHealth(grossMonthly: number, isResi
   return {
     national_insurance: nationalInsurance,
     health_tax: healthTax,
+    category,
     breakdown: {
       ni_breakdown: {
         low_part: lowPart * settings.rate_low_employee,
         high_part: highPart * settings.rate_high_employee,
       },
       health_breakdown: {
-        low_part: isResident ? lowPart * settings.rate_low_health : 0,
-        high_part: isResident ? highPart * settings.rate_high_health : 0,
+        low_part: paysHealthTax ? lowPart * settings.rate_low_health : 0,
+        high_part: paysHealthTax ? highPart * settings.rate_high_health : 0,
       },
     },
   };
 }
 
+export function calculateEmployerNationalInsurance(grossMonthly: number, person: NIProfile, taxYear: number) {
+  const { settings } = niRatesFor(person, taxYear);
+  const cappedGross = Math.min(grossMonthly, settings.max_monthly);
+
+  // Reduced rate up to the threshold, full rate above it
+  const lowPart = Math.min(cappedGross, settings.threshold_monthly) * settings.rate_low_employer;
+  const highPart = Math.max(0, cappedGross - settings.threshold_monthly) * settings.rate_high_employer;
+
+  return {
+    national_insurance: lowPart + highPart,
+    breakdown: {
+      low_part: lowPart,
+      high_part: highPart,
+    },
+  };
+}
+
+// NI compensation per reserve day: the average daily salary within the daily limits
+export function calculateReserveDutyCompensation(grossMonthly: number, days: number, taxYear: number) {
+  const settings = getTaxSettings(taxYear).reserve_duty;
+  const dailyCompensation = Math.min(
+    Math.max(grossMonthly / 30, settings.min_daily_compensation),
+    settings.max_daily_compensation
+  );
+
+  return {
+    daily_compensation: dailyCompensation,
+    employer_reimbursement: dailyCompensation * Math.max(0, days),
+  };
+}
+
 export function calculateContributions(grossMonthly: number, input: CalculationInput) {
+  const standardContributions = getTaxSettings(input.tax_year).contributions;
+  let pensionBase = 0;
   let pensionEmployee = 0;
   let pensionEmployer = 0;
+  let studyFundBase = 0;
   let studyFundEmployee = 0;
   let studyFundEmployer = 0;
   
   // Pension contributions
   if (input.use_standard_pension || input.custom_pension) {
-    const pensionSettings = input.custom_pension || STANDARD_CONTRIBUTIONS_2025.pension;
-    const pensionBase = pensionSettings.base_salary_only ? input.gross_monthly : grossMonthly;
+    const pensionSettings = input.custom_pension || standardContributions.pension;
+    pensionBase = pensionSettings.base_salary_only ? input.base_salary_monthly ?? input.gross_monthly : grossMonthly;
     
     pensionEmployee = pensionBase * pensionSettings.employee_rate;
     pensionEmployer = pensionBase * pensionSettings.employer_rate;
@@ -291,48 +523,366 @@ export function calculateContributions(grossMonthly: number, input: CalculationI
   
   // Study fund contributions
   if (input.use_study_fund || input.custom_study_fund) {
-    const studyFundSettings = input.custom_study_fund || STANDARD_CONTRIBUTIONS_2025.study_fund;
-    const studyFundBase = studyFundSettings.base_salary_only ? input.gross_monthly : grossMonthly;
+    const studyFundSettings = input.custom_study_fund || standardContributions.study_fund;
+    studyFundBase = studyFundSettings.base_salary_only ? input.base_salary_monthly ?? input.gross_monthly : grossMonthly;
     
     studyFundEmployee = studyFundBase * studyFundSettings.employee_rate;
     studyFundEmployer = studyFundBase * studyFundSettings.employer_rate;
   }
   
   return {
+    pension_base: pensionBase,
     pension_employee: pensionEmployee,
     pension_employer: pensionEmployer,
+    study_fund_base: studyFundBase,
     study_fund_employee: studyFundEmployee,
     study_fund_employer: studyFundEmployer,
   };
 }
 
-export function calculateSalary(input: CalculationInput): CalculationResult {
-  const grossMonthly = input.gross_monthly + (input.bonus_current_month || 0);
+// Section 46: credit on approved donations above the annual minimum, capped by income share and a fixed maximum
+export function calculateDonationCredit(donationsAnnual: number, taxableIncomeAnnual: number, taxYear: number): number {
+  const settings = getTaxSettings(taxYear).personal_credits;
+  if (donationsAnnual < settings.donation_min_annual) {
+    return 0;
+  }
+
+  const eligible = Math.min(
+    donationsAnnual,
+    taxableIncomeAnnual * settings.donation_max_income_share,
+    settings.donation_max_annual
+  );
+  return Math.max(0, eligible) * settings.donation_credit_rate;
+}
+
+// Section 45A: credit on private life and disability insurance premiums, up to a share of capped income
+export function calculateLifeInsuranceCredit(premiumsAnnual: number, incomeAnnual: number, taxYear: number): number {
+  const settings = getTaxSettings(taxYear).personal_credits;
+  const eligible = Math.min(
+    premiumsAnnual,
+    Math.min(incomeAnnual, settings.life_insurance_income_ceiling_annual) * settings.life_insurance_max_income_share
+  );
+  return Math.max(0, eligible) * settings.life_insurance_credit_rate;
+}
+
+export function calculateTaxableEmployerBenefits(
+  contributions: ReturnType<typeof calculateContributions>,
+  taxYear: number
+): TaxableEmployerBenefits {
+  const settings = getTaxSettings(taxYear).employer_contribution_exemptions;
+
+  const studyFundExempt =
+    Math.min(contributions.study_fund_base, settings.study_fund_salary_ceiling_monthly) * settings.study_fund_exempt_rate;
+  const studyFundBenefit = Math.max(0, contributions.study_fund_employer - studyFundExempt);
+
+  const pensionExempt =
+    Math.min(contributions.pension_base, settings.pension_salary_ceiling_monthly) * settings.pension_exempt_rate;
+  const pensionBenefit = Math.max(0, contributions.pension_employer - pensionExempt);
+
+  return {
+    study_fund_employer: studyFundBenefit,
+    pension_employer: pensionBenefit,
+    total: studyFundBenefit + pensionBenefit,
+  };
+}
+
+// Foreign expert deduction: capped expenses for the months within the relief period,
+// in the current month (cumulative mode) or averaged over the tax year
+export function calculateForeignExpertDeduction(input: CalculationInput): number {
+  const arrival = parseMonth(input.foreign_expert?.arrival_date || '');
+  if (input.residency !== 'foreign_expert' || !input.foreign_expert || arrival === null) {
+    return 0;
+  }
+
+  const settings = getTaxSettings(input.tax_year).foreign_expert;
+  const eligible = (monthIndex: number) => monthIndex >= arrival && monthIndex < arrival + settings.relief_months;
+  const deduction = Math.min(Math.max(0, input.foreign_expert.expenses_monthly), settings.deduction_cap_monthly);
+
+  const yearStart = input.tax_year * 12;
+  const month = input.tax_calculation_mode === 'cumulative' ? input.cumulative?.month : undefined;
+  if (month !== undefined) {
+    return eligible(yearStart + month - 1) ? deduction : 0;
+  }
+  const eligibleMonths = Array.from({ length: 12 }, (_, i) => yearStart + i).filter(eligible).length;
+  return deduction * eligibleMonths / 12;
+}
+
+export function calculatePensionTaxBenefits(
+  grossMonthly: number,
+  pensionEmployee: number,
+  input: CalculationInput
+): PensionTaxBenefits {
+  const settings = getTaxSettings(input.tax_year).pension_tax;
+
+  // Section 45A: credit on employee deposits up to a share of salary capped at the ceiling
+  const creditEligibleDeposit = Math.min(
+    pensionEmployee,
+    Math.min(grossMonthly, settings.credit_salary_ceiling_monthly) * settings.credit_deposit_rate
+  );
+
+  // Section 47: deduction for independent deposits, limited to a share of income up to the ceiling
+  const deductibleDeposit = Math.min(
+    input.pension_independent_deposit_monthly || 0,
+    Math.min(grossMonthly, settings.deduction_income_ceiling_monthly) * settings.deduction_deposit_rate
+  );
+
+  return {
+    credit_eligible_deposit: creditEligibleDeposit,
+    credit: creditEligibleDeposit * settings.credit_rate,
+    deductible_deposit: deductibleDeposit,
+    deduction: deductibleDeposit,
+  };
+}
+
+export function calculateCarBenefit(car: CarBenefit, taxYear: number): number {
+  const settings = getTaxSettings(taxYear).benefits_in_kind;
+  const listPrice = Math.min(car.list_price, settings.car_list_price_ceiling);
+  const reduction = car.vehicle_type === 'regular' ? 0 : settings.green_vehicle_reductions[car.vehicle_type];
+
+  return Math.max(0, listPrice * settings.car_rate - reduction);
+}
+
+export function calculateBenefitsInKind(benefits: BenefitInKind[], taxYear: number): BenefitInKindValue[] {
+  const settings = getTaxSettings(taxYear).benefits_in_kind;
+
+  return benefits.map((benefit) => {
+    switch (benefit.type) {
+      case 'car':
+        return { type: benefit.type, description: 'שווי רכב', monthly_value: calculateCarBenefit(benefit, taxYear) };
+      case 'phone':
+        return {
+          type: benefit.type,
+          description: benefit.description || 'שווי טלפון נייד',
+          monthly_value: benefit.monthly_value ?? settings.phone_monthly_value,
+        };
+      case 'meals':
+        return { type: benefit.type, description: benefit.description || 'שווי ארוחות', monthly_value: benefit.monthly_value || 0 };
+      default:
+        return { type: benefit.type, description: benefit.description || 'הטבה אחרת', monthly_value: benefit.monthly_value || 0 };
+    }
+  });
+}
+
+export function calculateSalary(salaryInput: CalculationInput): CalculationResult {
+  // Hourly wage: gross from hours, with regular hours as the base salary
+  const hourlyWage = salaryInput.hourly_wage
+    ? calculateHourlyGross(salaryInput.hourly_wage, salaryInput.tax_year)
+    : undefined;
+  const input = hourlyWage
+    ? { ...salaryInput, gross_monthly: hourlyWage.gross, base_salary_monthly: hourlyWage.base_pay }
+    : salaryInput;
+
+  const settings = getTaxSettings(input.tax_year);
+
+  // One-off components: cash ones are paid with the salary, gifts in kind are imputed above the exemption
+  const oneOffItems = (input.one_off_payments_current_month || []).map(
+    (payment) => resolveOneOffPayment(payment, input.tax_year)
+  );
+  const sumOneOff = (pick: (item: OneOffPayItem) => number) =>
+    oneOffItems.reduce((total, item) => total + pick(item), 0);
+  const oneOffCash = sumOneOff((item) => item.cash ? item.amount : 0);
+  const oneOffNonPensionable = sumOneOff((item) => item.cash && !item.pensionable ? item.amount : 0);
+  const oneOffInKind = sumOneOff((item) => item.cash ? 0 : item.taxable_amount);
+
+  const grossMonthly = input.gross_monthly + (input.bonus_current_month || 0) + oneOffCash;
+
+  // Maternity allowance is taxed and subject to NI like salary, but paid by NI
+  const maternityAllowance = input.parental_leave?.allowance || 0;
+  const continuitySalary = input.parental_leave?.pension_continuity_salary;
   
-  // Calculate contributions
-  const contributions = calculateContributions(grossMonthly, input);
+  // Calculate contributions, on the pre-leave salary when deposits continue through the leave
+  const contributions = continuitySalary !== undefined
+    ? calculateContributions(continuitySalary, { ...input, gross_monthly: continuitySalary, base_salary_monthly: undefined })
+    : calculateContributions(grossMonthly - oneOffNonPensionable, input);
   
   // Manual deductions
   const manualDeductions = input.manual_deductions_monthly || 0;
   
-  // Taxable income (after pension deductions)
-  const taxableMonthly = grossMonthly - contributions.pension_employee;
-  const taxableAnnual = taxableMonthly * 12;
+  // Pension tax credit (section 45A) and deduction (section 47)
+  const pensionTaxBenefits = calculatePensionTaxBenefits(
+    grossMonthly + maternityAllowance,
+    contributions.pension_employee,
+    input
+  );
+
+  // Employer deposits above the exempt limits are imputed as income
+  const taxableBenefits = calculateTaxableEmployerBenefits(contributions, input.tax_year);
+
+  // Benefits in kind are taxed but never paid in cash
+  const benefitsInKind = calculateBenefitsInKind(input.benefits_in_kind || [], input.tax_year);
+  const benefitsInKindTotal = benefitsInKind.reduce((sum, benefit) => sum + benefit.monthly_value, 0);
+
+  // Equity income is taxed like benefits in kind; the section 102 ordinary portion is outside NI
+  const equityIncome = input.equity_income_current_month || 0;
+  const equityNiExemptIncome = input.equity_ni_exempt_income_current_month || 0;
 
-  // Calculate income tax on taxable income
-  const { tax: annualTax, breakdown: taxBreakdown } = calculateIncomeTax(taxableAnnual);
-  const monthlyTaxBeforeCredits = annualTax / 12;
+  // Foreign expert housing and living expenses
+  const foreignExpertDeduction = calculateForeignExpertDeduction(input);
+
+  // Taxable income (including maternity allowance, imputed benefits, taxable gifts and equity, after deductions)
+  const taxableMonthly = Math.max(
+    0,
+    grossMonthly + maternityAllowance + taxableBenefits.total + benefitsInKindTotal + oneOffInKind + equityIncome +
+      equityNiExemptIncome - pensionTaxBenefits.deduction - foreignExpertDeduction
+  );
 
   // Calculate credit points
-  const autoCreditPoints = calculateCreditPoints(input);
+  const creditPointItems = calculateCreditPointItems(input);
+  const autoCreditPoints = creditPointItems.reduce((total, item) => total + item.points, 0);
   const totalCreditPoints = autoCreditPoints + input.manual_credit_points;
-  const creditValue = totalCreditPoints * TAX_SETTINGS_2025.credit_points.value_monthly;
-  
-  // Tax after credits (cannot be negative)
-  const monthlyTaxAfterCredits = Math.max(0, monthlyTaxBeforeCredits - creditValue);
+  const creditPointValue = settings.credit_points.value_monthly;
+
+  // Withholding annualizes the month as if it were paid all year. The partial-year
+  // year-end liability counts only the months actually worked, for the brackets and
+  // for the annual ceilings of the credits below.
+  const monthsWorked = Math.min(12, Math.max(1, input.months_worked_in_year || 12));
+  const yearEnd = input.partial_year_view === 'year_end_liability' &&
+    !(input.tax_calculation_mode === 'cumulative' && input.cumulative);
+  const incomeMonths = yearEnd ? monthsWorked : 12;
+
+  // Eligible settlement credit for residents, with the annual ceiling applied per month as in payroll.
+  // Flat secondary employer withholding does not grant it or the personal credits.
+  const flatRateWithholding = input.employer_withholding?.flat_rate !== undefined;
+  const settlementCredit = calculateSettlementCredit(
+    input.residency === 'resident' && !flatRateWithholding ? input.settlement : undefined,
+    taxableMonthly * incomeMonths,
+    input.tax_year
+  );
+  const settlementCreditMonthly = (settlementCredit?.credit_annual || 0) / incomeMonths;
+
+  // Donations and life insurance, with the annual limits applied to the income of the same months
+  const donationCredit = flatRateWithholding
+    ? 0
+    : calculateDonationCredit(
+      (input.donations_monthly || 0) * incomeMonths,
+      taxableMonthly * incomeMonths,
+      input.tax_year
+    ) / incomeMonths;
+  const lifeInsuranceCredit = flatRateWithholding
+    ? 0
+    : calculateLifeInsuranceCredit(
+      (input.life_insurance_premiums_monthly || 0) * incomeMonths,
+      grossMonthly * incomeMonths,
+      input.tax_year
+    ) / incomeMonths;
+
+  const otherCredits = pensionTaxBenefits.credit + settlementCreditMonthly + donationCredit + lifeInsuranceCredit;
 
-  // Calculate NI and Health (on gross before pension)
-  const niAndHealth = calculateNationalInsuranceAndHealth(grossMonthly, input.is_resident);
+  // Capital income sits above salary for surtax and is settled annually, outside payroll
+  const capitalIncomeAnnual = input.capital_income_annual || 0;
+
+  let monthlyTaxBeforeCredits: number;
+  let creditValue: number;
+  let monthlyTaxAfterCredits: number;
+  let taxBreakdown: TaxBracketBreakdown[];
+  let surtaxBreakdown: SurtaxBreakdown;
+  let monthlySurtax: number;
+  let cumulativeBreakdown: CalculationResult['breakdown']['cumulative'];
+  let partialYearBreakdown: CalculationResult['breakdown']['partial_year'];
+
+  if (input.tax_calculation_mode === 'cumulative' && input.cumulative) {
+    // Cumulative withholding: tax the year-to-date income on brackets scaled to
+    // the months elapsed, then subtract what earlier payslips already covered
+    const { month, ytd_taxable_gross, ytd_tax_withheld, ytd_credit_points_used } = input.cumulative;
+    const ytdOtherCredits = input.cumulative.ytd_other_credits || 0;
+    const ytdTaxable = ytd_taxable_gross + taxableMonthly;
+
+    const { tax: annualizedTax, breakdown } = calculateIncomeTax(ytdTaxable * 12 / month, input.tax_year);
+    taxBreakdown = breakdown;
+    surtaxBreakdown = calculateSurtax(ytdTaxable * 12 / month, input.tax_year, 0, capitalIncomeAnnual);
+    monthlySurtax = surtaxBreakdown.surtax / 12;
+    const ytdTaxBeforeCredits = annualizedTax * month / 12;
+
+    const creditPointsThisMonth = Math.max(0, totalCreditPoints * month - ytd_credit_points_used);
+    creditValue = creditPointsThisMonth * creditPointValue;
+    monthlyTaxBeforeCredits = ytdTaxBeforeCredits - ytd_tax_withheld - ytd_credit_points_used * creditPointValue - ytdOtherCredits;
+
+    // A negative result refunds over-withholding from earlier months, up to what was withheld
+    monthlyTaxAfterCredits = Math.max(
+      -ytd_tax_withheld,
+      monthlyTaxBeforeCredits - creditValue - otherCredits
+    );
+
+    cumulativeBreakdown = {
+      month,
+      ytd_taxable_income: ytdTaxable,
+      ytd_tax_liability: Math.max(
+        0,
+        ytdTaxBeforeCredits -
+          (ytd_credit_points_used + creditPointsThisMonth) * creditPointValue -
+          ytdOtherCredits -
+          otherCredits
+      ),
+      ytd_tax_withheld: ytd_tax_withheld + monthlyTaxAfterCredits,
+    };
+  } else if (input.employer_withholding?.flat_rate !== undefined) {
+    // Secondary employer without a coordination certificate: flat rate, no credit points
+    taxBreakdown = [];
+    surtaxBreakdown = calculateSurtax(0, input.tax_year);
+    monthlySurtax = 0;
+    monthlyTaxBeforeCredits = taxableMonthly * input.employer_withholding.flat_rate;
+    creditValue = 0;
+
+    monthlyTaxAfterCredits = Math.max(0, monthlyTaxBeforeCredits - pensionTaxBenefits.credit);
+  } else {
+    // A resident keeps the credit points of all 12 months in the year-end liability
+    const creditPointMonths = yearEnd && input.residency !== 'resident' ? monthsWorked : 12;
+
+    // Calculate income tax on annual taxable income, above any income taxed by other employers
+    const otherIncomeAnnual = (input.employer_withholding?.other_income_monthly || 0) * incomeMonths;
+    const { tax: annualTax, breakdown } = calculateIncomeTax(
+      taxableMonthly * incomeMonths,
+      input.tax_year,
+      otherIncomeAnnual
+    );
+    taxBreakdown = breakdown;
+    surtaxBreakdown = calculateSurtax(taxableMonthly * incomeMonths, input.tax_year, otherIncomeAnnual, capitalIncomeAnnual);
+    monthlySurtax = surtaxBreakdown.surtax / incomeMonths;
+    monthlyTaxBeforeCredits = annualTax / incomeMonths;
+    creditValue = totalCreditPoints * (input.employer_withholding?.credit_points_share ?? 1) * creditPointValue *
+      creditPointMonths / incomeMonths;
+
+    if (yearEnd) {
+      partialYearBreakdown = {
+        months_worked: monthsWorked,
+        annual_taxable_income: taxableMonthly * monthsWorked,
+        credit_point_months: creditPointMonths,
+        annual_tax_liability: Math.max(0, annualTax - (creditValue + otherCredits) * monthsWorked),
+      };
+    }
+
+    // Tax after credits (cannot be negative)
+    monthlyTaxAfterCredits = Math.max(0, monthlyTaxBeforeCredits - creditValue - otherCredits);
+  }
+
+  // Reserve duty: reimbursement to the employer, reservist credit points and grants
+  let reserveDutyEffect: ReserveDutyEffect | undefined;
+  if (input.reserve_duty) {
+    const days = input.reserve_duty.days_current_month || 0;
+    const compensation = calculateReserveDutyCompensation(input.gross_monthly, days, input.tax_year);
+    const reservePoints = calculateReserveDutyPoints(input.reserve_duty.days_in_year || 0, input.tax_year);
+    const grantsMonthly = (input.reserve_duty.grants_annual || 0) / 12;
+
+    // The points only save tax that the other credits have not already cancelled
+    const pointsValue = reservePoints * creditPointValue;
+    const reserveCreditValue = flatRateWithholding
+      ? 0
+      : Math.max(0, Math.min(pointsValue, monthlyTaxBeforeCredits - (creditValue - pointsValue) - otherCredits));
+
+    reserveDutyEffect = {
+      days_current_month: days,
+      daily_compensation: compensation.daily_compensation,
+      employer_reimbursement: compensation.employer_reimbursement,
+      credit_points: reservePoints,
+      credit_value_monthly: reserveCreditValue,
+      grants_monthly: grantsMonthly,
+      net_effect_monthly: reserveCreditValue + grantsMonthly,
+    };
+  }
+
+  // Calculate NI and Health (on gross before pension, including imputed benefits)
+  const niBase = grossMonthly + taxableBenefits.total + benefitsInKindTotal + oneOffInKind + equityIncome;
+  const niAndHealth = calculateNationalInsuranceAndHealth(niBase + maternityAllowance, input, input.tax_year);
 
   // Calculate totals
   const totalDeductions = monthlyTaxAfterCredits + 
@@ -341,23 +891,36 @@ export function calculateSalary(input: CalculationInput): CalculationResult {
                          contributions.pension_employee + 
                          contributions.study_fund_employee + 
                          manualDeductions;
-  const net = grossMonthly - totalDeductions;
+  const net = grossMonthly + maternityAllowance - totalDeductions;
 
   // Employer cost
-  const employerNI = grossMonthly * 0.0361; // Simplified employer NI rate
-  const employerCost = grossMonthly + employerNI + contributions.pension_employer + contributions.study_fund_employer;
+  const employerNI = calculateEmployerNationalInsurance(niBase, input, input.tax_year);
+  const employerCost = grossMonthly + employerNI.national_insurance + contributions.pension_employer + contributions.study_fund_employer;
 
   return {
+    tax_year: input.tax_year,
     gross: grossMonthly,
     taxable_income: taxableMonthly,
+    foreign_expert_deduction: foreignExpertDeduction,
+    taxable_benefits: taxableBenefits.total,
+    benefits_in_kind: benefitsInKindTotal,
+    equity_income: equityIncome + equityNiExemptIncome,
+    one_off_payments: oneOffCash,
+    maternity_allowance: maternityAllowance,
     income_tax_before_credits: monthlyTaxBeforeCredits,
+    surtax: monthlySurtax,
     credit_points: {
       auto: autoCreditPoints,
+      items: creditPointItems,
       manual: input.manual_credit_points,
       total: totalCreditPoints,
-      value_monthly: TAX_SETTINGS_2025.credit_points.value_monthly,
+      value_monthly: creditPointValue,
       total_value: creditValue,
     },
+    pension_tax_credit: pensionTaxBenefits.credit,
+    settlement_tax_credit: settlementCreditMonthly,
+    donation_credit: donationCredit,
+    life_insurance_credit: lifeInsuranceCredit,
     income_tax_after_credits: monthlyTaxAfterCredits,
     national_insurance: niAndHealth.national_insurance,
     health_tax: niAndHealth.health_tax,
@@ -366,12 +929,216 @@ export function calculateSalary(input: CalculationInput): CalculationResult {
     manual_deductions: manualDeductions,
     total_deductions: totalDeductions,
     net: net,
+    employer_national_insurance: employerNI.national_insurance,
     employer_cost: employerCost,
     breakdown: {
       tax_by_bracket: taxBreakdown,
+      surtax: surtaxBreakdown,
+      ni_category: niAndHealth.category,
       ni_breakdown: niAndHealth.breakdown.ni_breakdown,
       health_breakdown: niAndHealth.breakdown.health_breakdown,
       contributions: contributions,
+      taxable_benefits: taxableBenefits,
+      benefits_in_kind: benefitsInKind,
+      employer_cost: {
+        gross: grossMonthly,
+        ni_low_part: employerNI.breakdown.low_part,
+        ni_high_part: employerNI.breakdown.high_part,
+        pension_employer: contributions.pension_employer,
+        study_fund_employer: contributions.study_fund_employer,
+        total: employerCost,
+      },
+      pension_tax_benefits: pensionTaxBenefits,
+      settlement_credit: settlementCredit,
+      reserve_duty: reserveDutyEffect,
+      hourly_wage: hourlyWage,
+      one_off_payments: oneOffItems,
+      cumulative: cumulativeBreakdown,
+      partial_year: partialYearBreakdown,
+    },
+  };
+}
+
+export interface NetToGrossResult {
+  gross_monthly: number; // Base gross salary that produces the requested net
+  result: CalculationResult;
+}
+
+// Finds the gross monthly salary that yields targetNet, keeping every other input fixed.
+// Net grows with gross across brackets, credit points and NI tiers, so a bisection converges.
+export function solveGrossForNet(targetNet: number, input: CalculationInput): NetToGrossResult {
+  if (!Number.isFinite(targetNet)) {
+    throw new Error(`Invalid target net salary: ${targetNet}`);
+  }
+
+  // The solved gross replaces any hourly wage
+  const salaryInput = { ...input, hourly_wage: undefined };
+  const netFor = (gross: number) => calculateSalary({ ...salaryInput, gross_monthly: gross }).net;
+
+  let low = 0;
+  if (netFor(low) >= targetNet) {
+    return { gross_monthly: low, result: calculateSalary({ ...salaryInput, gross_monthly: low }) };
+  }
+
+  // Expand the upper bound until it produces at least the target net
+  let high = Math.max(targetNet * 2, 1000);
+  while (netFor(high) < targetNet) {
+    low = high;
+    high *= 2;
+    if (high > 1e9) {
+      throw new Error(`Cannot reach target net salary: ${targetNet}`);
+    }
+  }
+
+  for (let i = 0; i < 100 && high - low > 0.01; i++) {
+    const mid = (low + high) / 2;
+    if (netFor(mid) < targetNet) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return { gross_monthly: high, result: calculateSalary({ ...salaryInput, gross_monthly: high }) };
+}
+
+export interface RateCurvePoint {
+  gross: number;
+  net: number;
+  marginal_rate: number; // Share of the next shekels up to the next point taken by income tax, NI and health tax
+  effective_rate: number; // Income tax, NI and health tax as a share of gross
+}
+
+// Sweeps calculateSalary over gross salaries from 0 to maxGross, keeping every other input fixed
+export function calculateRateCurve(input: CalculationInput, maxGross: number = 100000, step: number = 500): RateCurvePoint[] {
+  if (!(step > 0) || !(maxGross >= 0)) {
+    throw new Error(`Invalid salary range: up to ${maxGross} in steps of ${step}`);
+  }
+
+  // The swept gross replaces any hourly wage
+  const taxesFor = (gross: number) => {
+    const result = calculateSalary({ ...input, hourly_wage: undefined, gross_monthly: gross });
+    return { result, taxes: result.income_tax_after_credits + result.national_insurance + result.health_tax };
+  };
+
+  const points: RateCurvePoint[] = [];
+  let current = taxesFor(0);
+  for (let gross = 0; gross <= maxGross; gross += step) {
+    const next = taxesFor(gross + step);
+    points.push({
+      gross,
+      net: current.result.net,
+      marginal_rate: (next.taxes - current.taxes) / step,
+      effective_rate: current.result.gross > 0 ? current.taxes / current.result.gross : 0,
+    });
+    current = next;
+  }
+  return points;
+}
+
+export interface OneOffPayslip {
+  month: number;
+  items: OneOffPayItem[];
+  without_one_off: CalculationResult;
+  with_one_off: CalculationResult;
+  net_change: number; // Gifts in kind add tax without adding cash
+}
+
+// The payslip of each month with one-off components, compared with a regular month
+export function calculateOneOffPayslips(input: CalculationInput, payments: OneOffPayment[]): OneOffPayslip[] {
+  const regular = calculateSalary({ ...input, one_off_payments_current_month: undefined });
+  const months = [...new Set(payments.map((payment) => payment.month))].sort((a, b) => a - b);
+
+  return months.map((month) => {
+    const withOneOff = calculateSalary({
+      ...input,
+      one_off_payments_current_month: payments.filter((payment) => payment.month === month),
+    });
+    return {
+      month,
+      items: withOneOff.breakdown.one_off_payments,
+      without_one_off: regular,
+      with_one_off: withOneOff,
+      net_change: withOneOff.net - regular.net,
+    };
+  });
+}
+
+export interface YearMonthResult {
+  month: number; // 1-12
+  input: CalculationInput; // As calculated, with the year-to-date figures of cumulative mode filled in
+  result: CalculationResult;
+}
+
+export interface YearResult {
+  tax_year: number;
+  months: YearMonthResult[];
+  totals: {
+    gross: number;
+    taxable_income: number;
+    income_tax: number;
+    national_insurance: number;
+    health_tax: number;
+    pension_employee: number;
+    study_fund_employee: number;
+    manual_deductions: number;
+    net: number;
+    employer_cost: number;
+  };
+}
+
+// Calculates the months of a tax year in order, inputsPerMonth[0] being January.
+// Months in cumulative mode continue from the payslips of the months before them.
+export function calculateYear(inputsPerMonth: CalculationInput[]): YearResult {
+  if (inputsPerMonth.length === 0 || inputsPerMonth.length > 12) {
+    throw new Error(`Expected 1-12 monthly inputs, got ${inputsPerMonth.length}`);
+  }
+  const taxYear = inputsPerMonth[0].tax_year;
+  if (inputsPerMonth.some((input) => input.tax_year !== taxYear)) {
+    throw new Error('All monthly inputs must be in the same tax year');
+  }
+
+  let ytd: Omit<CumulativeTaxInput, 'month'> = {
+    ytd_taxable_gross: 0,
+    ytd_tax_withheld: 0,
+    ytd_credit_points_used: 0,
+    ytd_other_credits: 0,
+  };
+
+  const months = inputsPerMonth.map((monthInput, index) => {
+    const month = index + 1;
+    const input = monthInput.tax_calculation_mode === 'cumulative'
+      ? { ...monthInput, cumulative: { month, ...ytd } }
+      : monthInput;
+    const result = calculateSalary(input);
+
+    ytd = {
+      ytd_taxable_gross: ytd.ytd_taxable_gross + result.taxable_income,
+      ytd_tax_withheld: ytd.ytd_tax_withheld + result.income_tax_after_credits,
+      ytd_credit_points_used: ytd.ytd_credit_points_used + result.credit_points.total_value / result.credit_points.value_monthly,
+      ytd_other_credits: (ytd.ytd_other_credits || 0) + result.pension_tax_credit + result.settlement_tax_credit +
+        result.donation_credit + result.life_insurance_credit,
+    };
+    return { month, input, result };
+  });
+
+  const sum = (pick: (result: CalculationResult) => number) =>
+    months.reduce((total, month) => total + pick(month.result), 0);
+
+  return {
+    tax_year: taxYear,
+    months,
+    totals: {
+      gross: sum((result) => result.gross),
+      taxable_income: sum((result) => result.taxable_income),
+      income_tax: sum((result) => result.income_tax_after_credits),
+      national_insurance: sum((result) => result.national_insurance),
+      health_tax: sum((result) => result.health_tax),
+      pension_employee: sum((result) => result.pension_employee),
+      study_fund_employee: sum((result) => result.study_fund_employee),
+      manual_deductions: sum((result) => result.manual_deductions),
+      net: sum((result) => result.net),
+      employer_cost: sum((result) => result.employer_cost),
     },
   };
 }
@@ -390,4 +1157,11 @@ export function formatNumber(amount: number): string {
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(amount);
+}
+
+export function formatPoints(points: number): string {
+  return new Intl.NumberFormat('he-IL', {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(points);
 }
\ No newline at end of file
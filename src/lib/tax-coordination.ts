@@ -0,0 +1,189 @@
+// Multiple concurrent employers and tax coordination (תיאום מס)
+// Each employer withholds separately; the annual reconciliation settles the difference
+
+import {
+  calculateDonationCredit,
+  calculateIncomeTax,
+  calculateLifeInsuranceCredit,
+  calculateNationalInsuranceAndHealth,
+  calculateSalary,
+  type CalculationInput,
+  type CalculationResult,
+} from './tax-calculator';
+import { calculateSettlementCredit } from './settlements';
+import { getTaxSettings } from './tax-settings';
+
+export interface EmployerIncome {
+  name: string;
+  gross_monthly: number;
+  is_primary: boolean;
+  credit_points_share?: number; // Share of credit points assigned by the certificate (primary defaults to 1)
+  bonus_current_month?: number;
+  use_standard_pension?: boolean;
+  use_study_fund?: boolean;
+}
+
+export interface MultiEmployerInput {
+  personal: Omit<
+    CalculationInput,
+    | 'gross_monthly'
+    | 'hourly_wage'
+    | 'bonus_current_month'
+    | 'one_off_payments_current_month'
+    | 'parental_leave'
+    | 'employer_withholding'
+    | 'equity_income_current_month'
+    | 'equity_ni_exempt_income_current_month'
+    | 'tax_calculation_mode'
+    | 'cumulative'
+    | 'partial_year_view'
+  >;
+  employers: EmployerIncome[];
+  has_tax_coordination: boolean;
+}
+
+export interface EmployerNetResult {
+  name: string;
+  is_primary: boolean;
+  result: CalculationResult;
+}
+
+export interface MultiEmployerResult {
+  employers: EmployerNetResult[];
+  combined: {
+    gross_monthly: number;
+    net_monthly: number;
+    annual_taxable_income: number;
+    annual_tax_withheld: number;
+    annual_tax_liability: number;
+    annual_tax_balance: number; // Positive: balance due, negative: expected refund
+    annual_ni_withheld: number; // National insurance and health tax
+    annual_ni_liability: number;
+    annual_ni_balance: number;
+  };
+}
+
+export function calculateMultiEmployerSalary(input: MultiEmployerInput): MultiEmployerResult {
+  const primaryCount = input.employers.filter((employer) => employer.is_primary).length;
+  if (primaryCount !== 1) {
+    throw new Error(`Exactly one primary employer is required, got ${primaryCount}`);
+  }
+
+  const primary = input.employers.find((employer) => employer.is_primary);
+  const secondaries = input.employers.filter((employer) => !employer.is_primary);
+
+  // The certificate splits the credit points, it never grants more than all of them
+  const shares = input.employers.map((employer) => employer.credit_points_share ?? (employer.is_primary ? 1 : 0));
+  if (shares.some((share) => share < 0)) {
+    throw new Error('Credit point shares must not be negative');
+  }
+  const totalShare = shares.reduce((total, share) => total + share, 0);
+  if (totalShare > 1 + 1e-9) {
+    throw new Error(`Credit point shares must not exceed 1, got ${totalShare}`);
+  }
+  const settings = getTaxSettings(input.personal.tax_year);
+
+  // Pay fields of a single payslip never carry over from the personal details, and
+  // each employer withholds monthly so its coordination terms always apply. The
+  // months worked in the year are settled in the reconciliation below.
+  const toInput = (employer: EmployerIncome): CalculationInput => ({
+    ...input.personal,
+    tax_calculation_mode: 'monthly',
+    cumulative: undefined,
+    partial_year_view: undefined,
+    gross_monthly: employer.gross_monthly,
+    hourly_wage: undefined,
+    bonus_current_month: employer.bonus_current_month,
+    one_off_payments_current_month: undefined,
+    parental_leave: undefined,
+    equity_income_current_month: undefined,
+    equity_ni_exempt_income_current_month: undefined,
+    use_standard_pension: employer.use_standard_pension ?? input.personal.use_standard_pension,
+    use_study_fund: employer.use_study_fund ?? input.personal.use_study_fund,
+  });
+
+  // Primary employer: brackets from zero with its share of the credit points
+  const primaryResult = calculateSalary({
+    ...toInput(primary),
+    employer_withholding: { credit_points_share: primary.credit_points_share ?? 1 },
+  });
+
+  // Secondary employers: with a certificate, brackets continue above the income
+  // of the employers before them; without one, a flat maximum rate applies.
+  // Personal credits and the settlement credit are claimed through the primary employer only.
+  let incomeBelow = primaryResult.taxable_income;
+  const secondaryResults = secondaries.map((employer) => {
+    const result = calculateSalary({
+      ...toInput(employer),
+      donations_monthly: undefined,
+      life_insurance_premiums_monthly: undefined,
+      foreign_expert: undefined,
+      settlement: undefined,
+      employer_withholding: input.has_tax_coordination
+        ? { other_income_monthly: incomeBelow, credit_points_share: employer.credit_points_share ?? 0 }
+        : { flat_rate: settings.secondary_employer_rate },
+    });
+    incomeBelow += result.taxable_income;
+    return { name: employer.name, is_primary: false, result };
+  });
+
+  const employers: EmployerNetResult[] = [
+    { name: primary.name, is_primary: true, result: primaryResult },
+    ...secondaryResults,
+  ];
+  const results = employers.map((employer) => employer.result);
+  const sum = (pick: (result: CalculationResult) => number) =>
+    results.reduce((total, result) => total + pick(result), 0);
+
+  // Annual reconciliation on the income of the months worked; a resident keeps the
+  // credit points of all 12 months
+  const monthsWorked = Math.min(12, Math.max(1, input.personal.months_worked_in_year || 12));
+  const creditPointMonths = input.personal.residency === 'resident' ? 12 : monthsWorked;
+  const annualTaxableIncome = sum((result) => result.taxable_income) * monthsWorked;
+  const { tax: annualTaxBeforeCredits } = calculateIncomeTax(annualTaxableIncome, input.personal.tax_year);
+  const settlementCredit = calculateSettlementCredit(
+    input.personal.residency === 'resident' ? input.personal.settlement : undefined,
+    annualTaxableIncome,
+    input.personal.tax_year
+  );
+  const annualCredits = primaryResult.credit_points.total * primaryResult.credit_points.value_monthly * creditPointMonths +
+    sum((result) => result.pension_tax_credit) * monthsWorked +
+    (settlementCredit?.credit_annual || 0) +
+    calculateDonationCredit(
+      (input.personal.donations_monthly || 0) * monthsWorked,
+      annualTaxableIncome,
+      input.personal.tax_year
+    ) +
+    calculateLifeInsuranceCredit(
+      (input.personal.life_insurance_premiums_monthly || 0) * monthsWorked,
+      sum((result) => result.gross) * monthsWorked,
+      input.personal.tax_year
+    );
+  const annualTaxLiability = Math.max(0, annualTaxBeforeCredits - annualCredits);
+  const annualTaxWithheld = sum((result) => result.income_tax_after_credits) * monthsWorked;
+
+  // NI thresholds apply to total income, not to each employer separately
+  const combinedNiBase = sum((result) => result.gross + result.taxable_benefits + result.benefits_in_kind);
+  const combinedNi = calculateNationalInsuranceAndHealth(
+    combinedNiBase,
+    input.personal,
+    input.personal.tax_year
+  );
+  const annualNiLiability = (combinedNi.national_insurance + combinedNi.health_tax) * monthsWorked;
+  const annualNiWithheld = sum((result) => result.national_insurance + result.health_tax) * monthsWorked;
+
+  return {
+    employers,
+    combined: {
+      gross_monthly: sum((result) => result.gross),
+      net_monthly: sum((result) => result.net),
+      annual_taxable_income: annualTaxableIncome,
+      annual_tax_withheld: annualTaxWithheld,
+      annual_tax_liability: annualTaxLiability,
+      annual_tax_balance: annualTaxLiability - annualTaxWithheld,
+      annual_ni_withheld: annualNiWithheld,
+      annual_ni_liability: annualNiLiability,
+      annual_ni_balance: annualNiLiability - annualNiWithheld,
+    },
+  };
+}
@@ -0,0 +1,1048 @@
+// Israeli tax settings by tax year
+// All values based on official tax rates and regulations published for each year
+
+export interface TaxBracket {
+  min: number;
+  max: number | null;
+  rate: number;
+}
+
+export interface AgeRangePoints {
+  min_age: number; // Age during the tax year, 0 is the year of birth
+  max_age: number;
+  points: number;
+}
+
+export interface MonthRangePoints {
+  from_month: number; // 1-based, counted from the qualifying event
+  to_month: number;
+  points: number;
+}
+
+export interface AcademicDegreePoints {
+  points: number;
+  years: number; // Tax years of eligibility, starting the year after completion
+}
+
+export interface CreditPointSettings {
+  value_monthly: number;
+  resident_male: number;
+  resident_female: number;
+  children_mother: AgeRangePoints[];
+  children_father: AgeRangePoints[];
+  toddler: AgeRangePoints[]; // Additional points for young children, for each parent
+  disabled_child: number;
+  single_parent: number;
+  alimony_payer: number;
+  new_immigrant: number; // Flat points when the aliyah date is unknown
+  new_immigrant_schedule: MonthRangePoints[];
+  returning_resident: number;
+  foreign_worker: number; // Non-resident foreign workers with a permit in caregiving or agriculture
+  academic_degrees: {
+    bachelor: AcademicDegreePoints;
+    master: AcademicDegreePoints;
+    doctorate: AcademicDegreePoints;
+  };
+  discharged_soldier: {
+    full_service_points: number;
+    partial_service_points: number;
+    eligibility_months: number; // From the month after discharge
+    full_service_months_male: number;
+    full_service_months_female: number;
+    full_service_months_national: number;
+    min_service_months: number;
+  };
+}
+
+// NI rates of a category with its own rates, replacing the standard ones
+export interface NIRates {
+  rate_low_employee: number;
+  rate_high_employee: number;
+  rate_low_employer: number;
+  rate_high_employer: number;
+}
+
+export interface NISettings {
+  threshold_monthly: number;
+  max_monthly: number;
+  rate_low_employee: number;
+  rate_high_employee: number;
+  rate_low_health: number;
+  rate_high_health: number;
+  rate_low_employer: number;
+  rate_high_employer: number;
+  non_resident: NIRates; // Insured only for work injury, maternity and insolvency, no health tax
+  youth: NIRates; // Up to youth_max_age, no health tax
+  youth_max_age: number;
+  retirement: NIRates; // From retirement age, no old-age insurance, health tax as usual
+  retirement_age: RetirementAgeSettings;
+}
+
+export interface RetirementAgeByBirthYear {
+  from_birth_year: number;
+  age: number; // Fractional for ages set in months
+}
+
+export interface RetirementAgeSettings {
+  male: number;
+  female: RetirementAgeByBirthYear[]; // Highest matching birth year applies
+}
+
+// Foreign experts (מומחה חוץ): housing and living expenses deductible for a limited period after arrival
+export interface ForeignExpertSettings {
+  deduction_cap_monthly: number;
+  relief_months: number;
+}
+
+export interface PensionContributions {
+  employee_rate: number; // e.g., 0.07 for 7%
+  employer_rate: number; // e.g., 0.0833 for 8.33%
+  base_salary_only: boolean; // whether to apply only to base salary or total
+}
+
+export interface StudyFundContributions {
+  employee_rate: number; // e.g., 0.025 for 2.5%
+  employer_rate: number; // e.g., 0.075 for 7.5%
+  base_salary_only: boolean;
+}
+
+// Hours of Work and Rest Law
+export interface WorkingHoursSettings {
+  standard_monthly_hours: number; // Full-time month, hours beyond it are overtime
+  max_overtime_weekly: number;
+  overtime_first_rate: number; // First 2 overtime hours of the day
+  overtime_second_rate: number; // Further overtime hours
+  weekly_rest_rate: number; // Work on the weekly rest day
+}
+
+export interface StandardContributions {
+  pension: PensionContributions;
+  study_fund: StudyFundContributions;
+}
+
+export interface PensionTaxSettings {
+  credit_rate: number; // Section 45A credit on employee deposits
+  credit_deposit_rate: number; // Share of salary whose deposits earn the credit
+  credit_salary_ceiling_monthly: number;
+  deduction_deposit_rate: number; // Section 47 deduction on independent deposits
+  deduction_income_ceiling_monthly: number;
+}
+
+// Surtax (מס יסף) on total annual income above the threshold, on top of the brackets
+export interface SurtaxSettings {
+  threshold_annual: number;
+  rate: number;
+  capital_additional_rate: number; // Extra surtax on capital income above the threshold, 0 before 2025
+}
+
+export interface PersonalCreditSettings {
+  donation_credit_rate: number;
+  donation_min_annual: number;
+  donation_max_annual: number;
+  donation_max_income_share: number;
+  life_insurance_credit_rate: number;
+  life_insurance_max_income_share: number;
+  life_insurance_income_ceiling_annual: number;
+  settlement_credit_income_ceiling_annual: number; // Eligible settlements (section 11), rates per settlement
+}
+
+// Employer deposits above these limits are a taxable benefit to the employee
+export interface EmployerContributionExemptions {
+  study_fund_exempt_rate: number;
+  study_fund_salary_ceiling_monthly: number;
+  pension_exempt_rate: number;
+  pension_salary_ceiling_monthly: number;
+}
+
+export type VehicleType = 'regular' | 'hybrid' | 'plug_in_hybrid' | 'electric';
+
+export interface BenefitInKindSettings {
+  car_rate: number;
+  car_list_price_ceiling: number;
+  green_vehicle_reductions: Record<Exclude<VehicleType, 'regular'>, number>; // Monthly reduction per vehicle type
+  phone_monthly_value: number;
+}
+
+// Self-employed (עצמאי) NI shares threshold_monthly and max_monthly with NISettings
+export interface SelfEmployedSettings {
+  ni_rate_low: number;
+  ni_rate_high: number;
+  health_rate_low: number;
+  health_rate_high: number;
+  ni_deduction_share: number;
+  pension_deduction_rate: number; // Share of qualifying income, uses pension_tax.deduction_income_ceiling_monthly
+  pension_credit_rate: number;
+  study_fund_deduction_rate: number;
+  study_fund_income_ceiling_annual: number;
+}
+
+// Section 102 equity grants held by a trustee
+export interface EquitySettings {
+  capital_gains_rate: number;
+  trustee_holding_months: number; // From grant, for the capital gains track
+}
+
+// Severance pay (פיצויים): section 9(7a) exemption and section 8(c) spreading
+export interface SeveranceSettings {
+  exempt_ceiling_per_year: number;
+  max_spread_years: number;
+  service_years_per_spread_year: number; // One spread year per this many years of service
+}
+
+export interface ReserveDutyPoints {
+  min_days: number; // Reserve days served in the tax year
+  points: number;
+}
+
+// Reserve duty (מילואים): NI compensation reimbursed to the employer, and reservist credit points
+export interface ReserveDutySettings {
+  min_daily_compensation: number;
+  max_daily_compensation: number;
+  credit_points: ReserveDutyPoints[]; // Highest matching tier applies, empty in years without reservist points
+}
+
+// Maternity allowance (דמי לידה): days by insured months in the period before the birth.
+// The daily allowance is capped at the NI maximum monthly income divided by 30.
+export interface MaternitySettings {
+  full_allowance_days: number;
+  full_min_insured_months: number;
+  reduced_allowance_days: number;
+  reduced_min_insured_months: number;
+}
+
+export interface RecuperationDays {
+  min_seniority_years: number; // Completed years with the employer
+  days: number;
+}
+
+// One-off pay components: recuperation pay (דמי הבראה) and holiday gifts
+export interface OneOffPaySettings {
+  recuperation_daily_rate: number; // Private sector rate under the general extension order
+  recuperation_days: RecuperationDays[]; // Highest matching tier applies
+  holiday_gift_exempt_threshold: number; // Gifts in kind up to this value are not imputed as income
+}
+
+export interface TaxYearSettings {
+  year: number;
+  tax_brackets_annual: TaxBracket[];
+  surtax: SurtaxSettings;
+  credit_points: CreditPointSettings;
+  national_insurance: NISettings;
+  contributions: StandardContributions;
+  working_hours: WorkingHoursSettings;
+  pension_tax: PensionTaxSettings;
+  personal_credits: PersonalCreditSettings;
+  employer_contribution_exemptions: EmployerContributionExemptions;
+  benefits_in_kind: BenefitInKindSettings;
+  self_employed: SelfEmployedSettings;
+  equity: EquitySettings;
+  severance: SeveranceSettings;
+  reserve_duty: ReserveDutySettings;
+  foreign_expert: ForeignExpertSettings;
+  maternity: MaternitySettings;
+  one_off_pay: OneOffPaySettings;
+  secondary_employer_rate: number;
+}
+
+// Statutory working hours have not changed between 2022 and 2026
+const WORKING_HOURS: WorkingHoursSettings = {
+  standard_monthly_hours: 182, // 42 hours a week
+  max_overtime_weekly: 16,
+  overtime_first_rate: 1.25,
+  overtime_second_rate: 1.5,
+  weekly_rest_rate: 1.5,
+};
+
+// Non-resident, youth and retirement NI rates have not changed between 2022 and 2026
+const NON_RESIDENT_NI_RATES: NIRates = {
+  rate_low_employee: 0.0002,
+  rate_high_employee: 0.0059,
+  rate_low_employer: 0.0049,
+  rate_high_employer: 0.0262,
+};
+
+const YOUTH_NI_RATES: NIRates = {
+  rate_low_employee: 0,
+  rate_high_employee: 0,
+  rate_low_employer: 0.0124,
+  rate_high_employer: 0.0124,
+};
+
+const RETIREMENT_NI_RATES: NIRates = {
+  rate_low_employee: 0.0016,
+  rate_high_employee: 0.0187,
+  rate_low_employer: 0.0136,
+  rate_high_employer: 0.0283,
+};
+
+// Women's retirement age rises gradually to 65 (2021 amendment), approximated by birth year
+const RETIREMENT_AGE: RetirementAgeSettings = {
+  male: 67,
+  female: [
+    { from_birth_year: 0, age: 62 },
+    { from_birth_year: 1960, age: 62.5 },
+    { from_birth_year: 1961, age: 63 },
+    { from_birth_year: 1962, age: 63.25 },
+    { from_birth_year: 1963, age: 63.5 },
+    { from_birth_year: 1964, age: 63.75 },
+    { from_birth_year: 1965, age: 64 },
+    { from_birth_year: 1966, age: 64.25 },
+    { from_birth_year: 1967, age: 64.5 },
+    { from_birth_year: 1968, age: 64.75 },
+    { from_birth_year: 1969, age: 65 },
+  ],
+};
+
+// Credit point allocation has not changed between 2022 and 2026, only the point value
+const CREDIT_POINT_ALLOCATION = {
+  resident_male: 2.25,
+  resident_female: 2.75,
+  children_mother: [
+    { min_age: 0, max_age: 0, points: 1.5 }, // Year of birth
+    { min_age: 1, max_age: 5, points: 1.5 },
+    { min_age: 6, max_age: 17, points: 1.0 },
+    { min_age: 18, max_age: 18, points: 0.5 },
+  ],
+  children_father: [
+    { min_age: 0, max_age: 0, points: 1.5 }, // Year of birth
+    { min_age: 1, max_age: 5, points: 1.5 },
+  ],
+  toddler: [
+    { min_age: 1, max_age: 5, points: 1.0 },
+  ],
+  disabled_child: 2.0,
+  single_parent: 1.5,
+  alimony_payer: 1.0,
+  new_immigrant: 1.0,
+  // Aliyah from 2022 onwards
+  new_immigrant_schedule: [
+    { from_month: 1, to_month: 12, points: 1.0 },
+    { from_month: 13, to_month: 30, points: 3.0 },
+    { from_month: 31, to_month: 42, points: 2.0 },
+    { from_month: 43, to_month: 54, points: 1.0 },
+  ],
+  returning_resident: 1.0,
+  foreign_worker: 2.25,
+  academic_degrees: {
+    bachelor: { points: 1.0, years: 1 },
+    master: { points: 0.5, years: 1 },
+    doctorate: { points: 1.0, years: 2 },
+  },
+  discharged_soldier: {
+    full_service_points: 2.0,
+    partial_service_points: 1.0,
+    eligibility_months: 36,
+    full_service_months_male: 23,
+    full_service_months_female: 22,
+    full_service_months_national: 24,
+    min_service_months: 12,
+  },
+};
+
+// Standard Israeli contribution rates (mandatory pension order, unchanged since 2017)
+const STANDARD_CONTRIBUTIONS: StandardContributions = {
+  pension: {
+    employee_rate: 0.07, // 7%
+    employer_rate: 0.0833, // 8.33%
+    base_salary_only: false,
+  },
+
+  study_fund: {
+    employee_rate: 0.025, // 2.5%
+    employer_rate: 0.075, // 7.5%
+    base_salary_only: true, // Usually applied to base salary only
+  },
+};
+
+// Maternity allowance periods have not changed between 2022 and 2026
+const MATERNITY: MaternitySettings = {
+  full_allowance_days: 105, // 15 weeks
+  full_min_insured_months: 10, // Of the last 14 months
+  reduced_allowance_days: 56, // 8 weeks
+  reduced_min_insured_months: 6,
+};
+
+// Recuperation days in the private sector, unchanged by the extension order between 2022 and 2026
+const RECUPERATION_DAYS: RecuperationDays[] = [
+  { min_seniority_years: 1, days: 5 },
+  { min_seniority_years: 2, days: 6 },
+  { min_seniority_years: 4, days: 7 },
+  { min_seniority_years: 11, days: 8 },
+  { min_seniority_years: 16, days: 9 },
+  { min_seniority_years: 20, days: 10 },
+];
+
+// 2022 Tax Settings
+const TAX_SETTINGS_2022: TaxYearSettings = {
+  year: 2022,
+  tax_brackets_annual: [
+    { min: 0, max: 77400, rate: 0.10 },
+    { min: 77400, max: 110880, rate: 0.14 },
+    { min: 110880, max: 178080, rate: 0.20 },
+    { min: 178080, max: 247440, rate: 0.31 },
+    { min: 247440, max: 514920, rate: 0.35 },
+    { min: 514920, max: null, rate: 0.47 },
+  ],
+
+  surtax: {
+    threshold_annual: 663240,
+    rate: 0.03,
+    capital_additional_rate: 0,
+  },
+
+  credit_points: {
+    value_monthly: 223,
+    ...CREDIT_POINT_ALLOCATION,
+  },
+
+  national_insurance: {
+    threshold_monthly: 6331, // 60% of average wage
+    max_monthly: 45075,
+    rate_low_employee: 0.004, // BI part
+    rate_high_employee: 0.07, // BI part above threshold
+    rate_low_health: 0.031, // Health part
+    rate_high_health: 0.05, // Health part above threshold
+    rate_low_employer: 0.0355, // Employer part
+    rate_high_employer: 0.076, // Employer part above threshold
+    non_resident: NON_RESIDENT_NI_RATES,
+    youth: YOUTH_NI_RATES,
+    youth_max_age: 17,
+    retirement: RETIREMENT_NI_RATES,
+    retirement_age: RETIREMENT_AGE,
+  },
+
+  contributions: STANDARD_CONTRIBUTIONS,
+
+  working_hours: WORKING_HOURS,
+
+  pension_tax: {
+    credit_rate: 0.35, // Section 45A
+    credit_deposit_rate: 0.07,
+    credit_salary_ceiling_monthly: 8900,
+    deduction_deposit_rate: 0.05, // Section 47
+    deduction_income_ceiling_monthly: 16700,
+  },
+
+  personal_credits: {
+    donation_credit_rate: 0.35, // Section 46
+    donation_min_annual: 190,
+    donation_max_annual: 9517000,
+    donation_max_income_share: 0.3,
+    life_insurance_credit_rate: 0.25, // Section 45A
+    life_insurance_max_income_share: 0.05,
+    life_insurance_income_ceiling_annual: 200400,
+    settlement_credit_income_ceiling_annual: 225120,
+  },
+
+  employer_contribution_exemptions: {
+    study_fund_exempt_rate: 0.075,
+    study_fund_salary_ceiling_monthly: 15712,
+    pension_exempt_rate: 0.1583, // 7.5% benefits + 8.33% severance
+    pension_salary_ceiling_monthly: 44600, // 4x average wage
+  },
+
+  benefits_in_kind: {
+    car_rate: 0.0248, // Monthly benefit as a share of the list price
+    car_list_price_ceiling: 505630,
+    green_vehicle_reductions: {
+      electric: 1090,
+      plug_in_hybrid: 1090,
+      hybrid: 540,
+    },
+    phone_monthly_value: 105,
+  },
+
+  self_employed: {
+    ni_rate_low: 0.0287, // BI part
+    ni_rate_high: 0.1283, // BI part above threshold
+    health_rate_low: 0.031, // Health part
+    health_rate_high: 0.05, // Health part above threshold
+    ni_deduction_share: 0.52, // Deductible share of BI (excluding health)
+    pension_deduction_rate: 0.11, // Section 47
+    pension_credit_rate: 0.055, // Section 45A
+    study_fund_deduction_rate: 0.045,
+    study_fund_income_ceiling_annual: 271500,
+  },
+
+  equity: {
+    capital_gains_rate: 0.25, // Section 102 capital track gain
+    trustee_holding_months: 24,
+  },
+
+  severance: {
+    exempt_ceiling_per_year: 12640, // Per year of service
+    max_spread_years: 6, // Section 8(c)
+    service_years_per_spread_year: 4,
+  },
+
+  reserve_duty: {
+    min_daily_compensation: 204.75,
+    max_daily_compensation: 1432.73,
+    credit_points: [], // Reservist credit points start in 2024
+  },
+
+  foreign_expert: {
+    deduction_cap_monthly: 10110, // Housing and living expenses
+    relief_months: 48,
+  },
+
+  maternity: MATERNITY,
+
+  one_off_pay: {
+    recuperation_daily_rate: 378,
+    recuperation_days: RECUPERATION_DAYS,
+    holiday_gift_exempt_threshold: 220,
+  },
+
+  secondary_employer_rate: 0.47, // Flat withholding without a tax coordination certificate
+};
+
+// 2023 Tax Settings
+const TAX_SETTINGS_2023: TaxYearSettings = {
+  year: 2023,
+  tax_brackets_annual: [
+    { min: 0, max: 81480, rate: 0.10 },
+    { min: 81480, max: 116760, rate: 0.14 },
+    { min: 116760, max: 187440, rate: 0.20 },
+    { min: 187440, max: 260520, rate: 0.31 },
+    { min: 260520, max: 542160, rate: 0.35 },
+    { min: 542160, max: null, rate: 0.47 },
+  ],
+
+  surtax: {
+    threshold_annual: 698280,
+    rate: 0.03,
+    capital_additional_rate: 0,
+  },
+
+  credit_points: {
+    value_monthly: 235,
+    ...CREDIT_POINT_ALLOCATION,
+  },
+
+  national_insurance: {
+    threshold_monthly: 7122, // 60% of average wage
+    max_monthly: 47465,
+    rate_low_employee: 0.004, // BI part
+    rate_high_employee: 0.07, // BI part above threshold
+    rate_low_health: 0.031, // Health part
+    rate_high_health: 0.05, // Health part above threshold
+    rate_low_employer: 0.0355, // Employer part
+    rate_high_employer: 0.076, // Employer part above threshold
+    non_resident: NON_RESIDENT_NI_RATES,
+    youth: YOUTH_NI_RATES,
+    youth_max_age: 17,
+    retirement: RETIREMENT_NI_RATES,
+    retirement_age: RETIREMENT_AGE,
+  },
+
+  contributions: STANDARD_CONTRIBUTIONS,
+
+  working_hours: WORKING_HOURS,
+
+  pension_tax: {
+    credit_rate: 0.35, // Section 45A
+    credit_deposit_rate: 0.07,
+    credit_salary_ceiling_monthly: 9700,
+    deduction_deposit_rate: 0.05, // Section 47
+    deduction_income_ceiling_monthly: 17600,
+  },
+
+  personal_credits: {
+    donation_credit_rate: 0.35, // Section 46
+    donation_min_annual: 200,
+    donation_max_annual: 10025000,
+    donation_max_income_share: 0.3,
+    life_insurance_credit_rate: 0.25, // Section 45A
+    life_insurance_max_income_share: 0.05,
+    life_insurance_income_ceiling_annual: 211200,
+    settlement_credit_income_ceiling_annual: 235200,
+  },
+
+  employer_contribution_exemptions: {
+    study_fund_exempt_rate: 0.075,
+    study_fund_salary_ceiling_monthly: 15712,
+    pension_exempt_rate: 0.1583, // 7.5% benefits + 8.33% severance
+    pension_salary_ceiling_monthly: 47500, // 4x average wage
+  },
+
+  benefits_in_kind: {
+    car_rate: 0.0248, // Monthly benefit as a share of the list price
+    car_list_price_ceiling: 544990,
+    green_vehicle_reductions: {
+      electric: 1250,
+      plug_in_hybrid: 1040,
+      hybrid: 520,
+    },
+    phone_monthly_value: 105,
+  },
+
+  self_employed: {
+    ni_rate_low: 0.0287, // BI part
+    ni_rate_high: 0.1283, // BI part above threshold
+    health_rate_low: 0.031, // Health part
+    health_rate_high: 0.05, // Health part above threshold
+    ni_deduction_share: 0.52, // Deductible share of BI (excluding health)
+    pension_deduction_rate: 0.11, // Section 47
+    pension_credit_rate: 0.055, // Section 45A
+    study_fund_deduction_rate: 0.045,
+    study_fund_income_ceiling_annual: 293397,
+  },
+
+  equity: {
+    capital_gains_rate: 0.25, // Section 102 capital track gain
+    trustee_holding_months: 24,
+  },
+
+  severance: {
+    exempt_ceiling_per_year: 13310, // Per year of service
+    max_spread_years: 6, // Section 8(c)
+    service_years_per_spread_year: 4,
+  },
+
+  reserve_duty: {
+    min_daily_compensation: 212.91,
+    max_daily_compensation: 1484.43,
+    credit_points: [], // Reservist credit points start in 2024
+  },
+
+  foreign_expert: {
+    deduction_cap_monthly: 10510, // Housing and living expenses
+    relief_months: 48,
+  },
+
+  maternity: MATERNITY,
+
+  one_off_pay: {
+    recuperation_daily_rate: 418, // Raised from 378 in July 2023
+    recuperation_days: RECUPERATION_DAYS,
+    holiday_gift_exempt_threshold: 230,
+  },
+
+  secondary_employer_rate: 0.47, // Flat withholding without a tax coordination certificate
+};
+
+// 2024 Tax Settings
+const TAX_SETTINGS_2024: TaxYearSettings = {
+  year: 2024,
+  tax_brackets_annual: [
+    { min: 0, max: 84120, rate: 0.10 },
+    { min: 84120, max: 120720, rate: 0.14 },
+    { min: 120720, max: 193800, rate: 0.20 },
+    { min: 193800, max: 269280, rate: 0.31 },
+    { min: 269280, max: 560280, rate: 0.35 },
+    { min: 560280, max: null, rate: 0.47 },
+  ],
+
+  surtax: {
+    threshold_annual: 721560,
+    rate: 0.03,
+    capital_additional_rate: 0,
+  },
+
+  credit_points: {
+    value_monthly: 242,
+    ...CREDIT_POINT_ALLOCATION,
+  },
+
+  national_insurance: {
+    threshold_monthly: 7522, // 60% of average wage
+    max_monthly: 49030,
+    rate_low_employee: 0.004, // BI part
+    rate_high_employee: 0.07, // BI part above threshold
+    rate_low_health: 0.031, // Health part
+    rate_high_health: 0.05, // Health part above threshold
+    rate_low_employer: 0.0355, // Employer part
+    rate_high_employer: 0.076, // Employer part above threshold
+    non_resident: NON_RESIDENT_NI_RATES,
+    youth: YOUTH_NI_RATES,
+    youth_max_age: 17,
+    retirement: RETIREMENT_NI_RATES,
+    retirement_age: RETIREMENT_AGE,
+  },
+
+  contributions: STANDARD_CONTRIBUTIONS,
+
+  working_hours: WORKING_HOURS,
+
+  pension_tax: {
+    credit_rate: 0.35, // Section 45A
+    credit_deposit_rate: 0.07,
+    credit_salary_ceiling_monthly: 9700,
+    deduction_deposit_rate: 0.05, // Section 47
+    deduction_income_ceiling_monthly: 18100,
+  },
+
+  personal_credits: {
+    donation_credit_rate: 0.35, // Section 46
+    donation_min_annual: 207,
+    donation_max_annual: 10354816,
+    donation_max_income_share: 0.3,
+    life_insurance_credit_rate: 0.25, // Section 45A
+    life_insurance_max_income_share: 0.05,
+    life_insurance_income_ceiling_annual: 217200,
+    settlement_credit_income_ceiling_annual: 240360,
+  },
+
+  employer_contribution_exemptions: {
+    study_fund_exempt_rate: 0.075,
+    study_fund_salary_ceiling_monthly: 15712,
+    pension_exempt_rate: 0.1583, // 7.5% benefits + 8.33% severance
+    pension_salary_ceiling_monthly: 50100, // 4x average wage
+  },
+
+  benefits_in_kind: {
+    car_rate: 0.0248, // Monthly benefit as a share of the list price
+    car_list_price_ceiling: 577160,
+    green_vehicle_reductions: {
+      electric: 1310,
+      plug_in_hybrid: 1090,
+      hybrid: 540,
+    },
+    phone_monthly_value: 105,
+  },
+
+  self_employed: {
+    ni_rate_low: 0.0287, // BI part
+    ni_rate_high: 0.1283, // BI part above threshold
+    health_rate_low: 0.031, // Health part
+    health_rate_high: 0.05, // Health part above threshold
+    ni_deduction_share: 0.52, // Deductible share of BI (excluding health)
+    pension_deduction_rate: 0.11, // Section 47
+    pension_credit_rate: 0.055, // Section 45A
+    study_fund_deduction_rate: 0.045,
+    study_fund_income_ceiling_annual: 293397,
+  },
+
+  equity: {
+    capital_gains_rate: 0.25, // Section 102 capital track gain
+    trustee_holding_months: 24,
+  },
+
+  severance: {
+    exempt_ceiling_per_year: 13750, // Per year of service
+    max_spread_years: 6, // Section 8(c)
+    service_years_per_spread_year: 4,
+  },
+
+  reserve_duty: {
+    min_daily_compensation: 218.50,
+    max_daily_compensation: 1571.27,
+    credit_points: [
+      { min_days: 30, points: 0.5 },
+      { min_days: 40, points: 0.75 },
+      { min_days: 50, points: 1 },
+      { min_days: 60, points: 1.25 },
+      { min_days: 70, points: 1.5 },
+      { min_days: 80, points: 1.75 },
+      { min_days: 90, points: 2 },
+      { min_days: 100, points: 2.25 },
+      { min_days: 110, points: 2.5 },
+    ],
+  },
+
+  foreign_expert: {
+    deduction_cap_monthly: 10830, // Housing and living expenses
+    relief_months: 48,
+  },
+
+  maternity: MATERNITY,
+
+  one_off_pay: {
+    recuperation_daily_rate: 418,
+    recuperation_days: RECUPERATION_DAYS,
+    holiday_gift_exempt_threshold: 240,
+  },
+
+  secondary_employer_rate: 0.47, // Flat withholding without a tax coordination certificate
+};
+
+// 2025 Tax Settings (brackets and credit point value frozen at 2024 levels)
+const TAX_SETTINGS_2025: TaxYearSettings = {
+  year: 2025,
+  tax_brackets_annual: [
+    { min: 0, max: 84120, rate: 0.10 },
+    { min: 84120, max: 120720, rate: 0.14 },
+    { min: 120720, max: 193800, rate: 0.20 },
+    { min: 193800, max: 269280, rate: 0.31 },
+    { min: 269280, max: 560280, rate: 0.35 },
+    { min: 560280, max: null, rate: 0.47 },
+  ],
+
+  surtax: {
+    threshold_annual: 721560,
+    rate: 0.03,
+    capital_additional_rate: 0.02, // Additional 2% on capital income from 2025
+  },
+
+  credit_points: {
+    value_monthly: 242,
+    ...CREDIT_POINT_ALLOCATION,
+  },
+
+  national_insurance: {
+    threshold_monthly: 7522, // 60% of average wage
+    max_monthly: 50695,
+    rate_low_employee: 0.0104, // BI part
+    rate_high_employee: 0.07, // BI part above threshold
+    rate_low_health: 0.0323, // Health part
+    rate_high_health: 0.0517, // Health part above threshold
+    rate_low_employer: 0.0451, // Employer part
+    rate_high_employer: 0.076, // Employer part above threshold
+    non_resident: NON_RESIDENT_NI_RATES,
+    youth: YOUTH_NI_RATES,
+    youth_max_age: 17,
+    retirement: RETIREMENT_NI_RATES,
+    retirement_age: RETIREMENT_AGE,
+  },
+
+  contributions: STANDARD_CONTRIBUTIONS,
+
+  working_hours: WORKING_HOURS,
+
+  pension_tax: {
+    credit_rate: 0.35, // Section 45A
+    credit_deposit_rate: 0.07,
+    credit_salary_ceiling_monthly: 9700,
+    deduction_deposit_rate: 0.05, // Section 47
+    deduction_income_ceiling_monthly: 18100,
+  },
+
+  personal_credits: {
+    donation_credit_rate: 0.35, // Section 46
+    donation_min_annual: 207,
+    donation_max_annual: 10354816,
+    donation_max_income_share: 0.3,
+    life_insurance_credit_rate: 0.25, // Section 45A
+    life_insurance_max_income_share: 0.05,
+    life_insurance_income_ceiling_annual: 217200,
+    settlement_credit_income_ceiling_annual: 240360,
+  },
+
+  employer_contribution_exemptions: {
+    study_fund_exempt_rate: 0.075,
+    study_fund_salary_ceiling_monthly: 15712,
+    pension_exempt_rate: 0.1583, // 7.5% benefits + 8.33% severance
+    pension_salary_ceiling_monthly: 50100, // 4x average wage
+  },
+
+  benefits_in_kind: {
+    car_rate: 0.0248, // Monthly benefit as a share of the list price
+    car_list_price_ceiling: 596860,
+    green_vehicle_reductions: {
+      electric: 1350,
+      plug_in_hybrid: 1130,
+      hybrid: 560,
+    },
+    phone_monthly_value: 105,
+  },
+
+  self_employed: {
+    ni_rate_low: 0.0447, // BI part
+    ni_rate_high: 0.1283, // BI part above threshold
+    health_rate_low: 0.0323, // Health part
+    health_rate_high: 0.0517, // Health part above threshold
+    ni_deduction_share: 0.52, // Deductible share of BI (excluding health)
+    pension_deduction_rate: 0.11, // Section 47
+    pension_credit_rate: 0.055, // Section 45A
+    study_fund_deduction_rate: 0.045,
+    study_fund_income_ceiling_annual: 293397,
+  },
+
+  equity: {
+    capital_gains_rate: 0.25, // Section 102 capital track gain
+    trustee_holding_months: 24,
+  },
+
+  severance: {
+    exempt_ceiling_per_year: 13750, // Per year of service
+    max_spread_years: 6, // Section 8(c)
+    service_years_per_spread_year: 4,
+  },
+
+  reserve_duty: {
+    min_daily_compensation: 226.51,
+    max_daily_compensation: 1623.17,
+    credit_points: [
+      { min_days: 30, points: 0.5 },
+      { min_days: 40, points: 0.75 },
+      { min_days: 50, points: 1 },
+      { min_days: 60, points: 1.25 },
+      { min_days: 70, points: 1.5 },
+      { min_days: 80, points: 1.75 },
+      { min_days: 90, points: 2 },
+      { min_days: 100, points: 2.25 },
+      { min_days: 110, points: 2.5 },
+    ],
+  },
+
+  foreign_expert: {
+    deduction_cap_monthly: 10830, // Housing and living expenses
+    relief_months: 48,
+  },
+
+  maternity: MATERNITY,
+
+  one_off_pay: {
+    recuperation_daily_rate: 418,
+    recuperation_days: RECUPERATION_DAYS,
+    holiday_gift_exempt_threshold: 240,
+  },
+
+  secondary_employer_rate: 0.47, // Flat withholding without a tax coordination certificate
+};
+
+// 2026 Tax Settings (bracket and credit point freeze continues)
+const TAX_SETTINGS_2026: TaxYearSettings = {
+  year: 2026,
+  tax_brackets_annual: [
+    { min: 0, max: 84120, rate: 0.10 },
+    { min: 84120, max: 120720, rate: 0.14 },
+    { min: 120720, max: 193800, rate: 0.20 },
+    { min: 193800, max: 269280, rate: 0.31 },
+    { min: 269280, max: 560280, rate: 0.35 },
+    { min: 560280, max: null, rate: 0.47 },
+  ],
+
+  surtax: {
+    threshold_annual: 721560,
+    rate: 0.03,
+    capital_additional_rate: 0.02, // Additional 2% on capital income from 2025
+  },
+
+  credit_points: {
+    value_monthly: 242,
+    ...CREDIT_POINT_ALLOCATION,
+  },
+
+  national_insurance: {
+    threshold_monthly: 7703, // 60% of average wage
+    max_monthly: 51910,
+    rate_low_employee: 0.0104, // BI part
+    rate_high_employee: 0.07, // BI part above threshold
+    rate_low_health: 0.0323, // Health part
+    rate_high_health: 0.0517, // Health part above threshold
+    rate_low_employer: 0.0451, // Employer part
+    rate_high_employer: 0.076, // Employer part above threshold
+    non_resident: NON_RESIDENT_NI_RATES,
+    youth: YOUTH_NI_RATES,
+    youth_max_age: 17,
+    retirement: RETIREMENT_NI_RATES,
+    retirement_age: RETIREMENT_AGE,
+  },
+
+  contributions: STANDARD_CONTRIBUTIONS,
+
+  working_hours: WORKING_HOURS,
+
+  pension_tax: {
+    credit_rate: 0.35, // Section 45A
+    credit_deposit_rate: 0.07,
+    credit_salary_ceiling_monthly: 9700,
+    deduction_deposit_rate: 0.05, // Section 47
+    deduction_income_ceiling_monthly: 18100,
+  },
+
+  personal_credits: {
+    donation_credit_rate: 0.35, // Section 46
+    donation_min_annual: 207,
+    donation_max_annual: 10354816,
+    donation_max_income_share: 0.3,
+    life_insurance_credit_rate: 0.25, // Section 45A
+    life_insurance_max_income_share: 0.05,
+    life_insurance_income_ceiling_annual: 217200,
+    settlement_credit_income_ceiling_annual: 240360,
+  },
+
+  employer_contribution_exemptions: {
+    study_fund_exempt_rate: 0.075,
+    study_fund_salary_ceiling_monthly: 15712,
+    pension_exempt_rate: 0.1583, // 7.5% benefits + 8.33% severance
+    pension_salary_ceiling_monthly: 51300, // 4x average wage
+  },
+
+  benefits_in_kind: {
+    car_rate: 0.0248, // Monthly benefit as a share of the list price
+    car_list_price_ceiling: 596860,
+    green_vehicle_reductions: {
+      electric: 1350,
+      plug_in_hybrid: 1130,
+      hybrid: 560,
+    },
+    phone_monthly_value: 105,
+  },
+
+  self_employed: {
+    ni_rate_low: 0.0447, // BI part
+    ni_rate_high: 0.1283, // BI part above threshold
+    health_rate_low: 0.0323, // Health part
+    health_rate_high: 0.0517, // Health part above threshold
+    ni_deduction_share: 0.52, // Deductible share of BI (excluding health)
+    pension_deduction_rate: 0.11, // Section 47
+    pension_credit_rate: 0.055, // Section 45A
+    study_fund_deduction_rate: 0.045,
+    study_fund_income_ceiling_annual: 293397,
+  },
+
+  equity: {
+    capital_gains_rate: 0.25, // Section 102 capital track gain
+    trustee_holding_months: 24,
+  },
+
+  severance: {
+    exempt_ceiling_per_year: 13750, // Per year of service
+    max_spread_years: 6, // Section 8(c)
+    service_years_per_spread_year: 4,
+  },
+
+  reserve_duty: {
+    min_daily_compensation: 226.51,
+    max_daily_compensation: 1623.17,
+    credit_points: [
+      { min_days: 30, points: 0.5 },
+      { min_days: 40, points: 0.75 },
+      { min_days: 50, points: 1 },
+      { min_days: 60, points: 1.25 },
+      { min_days: 70, points: 1.5 },
+      { min_days: 80, points: 1.75 },
+      { min_days: 90, points: 2 },
+      { min_days: 100, points: 2.25 },
+      { min_days: 110, points: 2.5 },
+    ],
+  },
+
+  foreign_expert: {
+    deduction_cap_monthly: 10830, // Housing and living expenses
+    relief_months: 48,
+  },
+
+  maternity: MATERNITY,
+
+  one_off_pay: {
+    recuperation_daily_rate: 418,
+    recuperation_days: RECUPERATION_DAYS,
+    holiday_gift_exempt_threshold: 240,
+  },
+
+  secondary_employer_rate: 0.47, // Flat withholding without a tax coordination certificate
+};
+
+export const TAX_SETTINGS_BY_YEAR: Record<number, TaxYearSettings> = {
+  2022: TAX_SETTINGS_2022,
+  2023: TAX_SETTINGS_2023,
+  2024: TAX_SETTINGS_2024,
+  2025: TAX_SETTINGS_2025,
+  2026: TAX_SETTINGS_2026,
+};
+
+export const DEFAULT_TAX_YEAR = 2025;
+
+export const SUPPORTED_TAX_YEARS = Object.keys(TAX_SETTINGS_BY_YEAR).map(Number);
+
+export function getTaxSettings(taxYear: number = DEFAULT_TAX_YEAR): TaxYearSettings {
+  const settings = TAX_SETTINGS_BY_YEAR[taxYear];
+  if (!settings) {
+    throw new Error(`No tax settings available for tax year ${taxYear}`);
+  }
+  return settings;
+}